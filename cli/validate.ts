@@ -0,0 +1,171 @@
+/**
+ * Headless validation runner for batch pipelines.
+ *
+ * Usage:
+ *   npm run validate -- --config userConfig.json --data <folder|workbook.xlsx> [--out report.xlsx]
+ *
+ * --config  Config JSON as written by "Save Configuration" (configs, libraries, headerAliases, tables,
+ *           referenceMaterials)
+ * --data    A folder of table files (.csv/.xlsx/.xls, one table per file) or a single workbook
+ *           with one sheet per table. Tables are detected from file/sheet names and headers.
+ * --out     Report file; format follows the extension (.xlsx, .csv, .html). Default: validation_report.xlsx
+ *
+ * Exit codes: 0 = no critical errors, 1 = critical errors found, 2 = usage or input error.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import XLSX from 'xlsx-js-style';
+import {
+  CodeLibrary,
+  HeaderAliasConfig,
+  ReferenceMaterial,
+  TableConfig,
+  TableDefinition,
+  ValidationSeverity
+} from '../types';
+import { runValidation } from '../services/validationEngine';
+import { normalizeHeaders } from '../services/headerMapping';
+import { guessTableType } from '../services/workbookImport';
+import { buildExpectedColumns, ensureTableConfigs, mergeTableDefinitions } from '../services/tableRegistry';
+import { buildRunMeta, buildReportWorkbook, buildReportCsv, buildReportHtml } from '../services/reportExport';
+import {
+  CONFIG_VERSION,
+  defaultConfigs,
+  defaultExpectedColumns,
+  defaultHeaderAliases,
+  defaultLibraries,
+  defaultTableDefinitions
+} from '../data/defaults';
+
+const DATA_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+const REPORT_EXTENSIONS = ['.xlsx', '.csv', '.html'];
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) throw new UsageError(`Unexpected argument '${arg}'.`);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) throw new UsageError(`Missing value for ${arg}.`);
+    args[arg.slice(2)] = value;
+    i++;
+  }
+  return args;
+};
+
+const loadConfig = (file: string) => {
+  if (!fs.existsSync(file)) throw new UsageError(`Config file not found: ${file}`);
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  const tables = mergeTableDefinitions(parsed.tables as TableDefinition[] | undefined, defaultTableDefinitions);
+  return {
+    version: (parsed.version as string) || CONFIG_VERSION,
+    tables,
+    configs: ensureTableConfigs((parsed.configs || defaultConfigs) as TableConfig[], tables, defaultConfigs),
+    libraries: (parsed.libraries || defaultLibraries) as CodeLibrary[],
+    headerAliases: (parsed.headerAliases || defaultHeaderAliases) as HeaderAliasConfig,
+    referenceMaterials: (parsed.referenceMaterials || []) as ReferenceMaterial[],
+  };
+};
+
+/**
+ * Collect candidate (name, raw rows) sources: every sheet of a workbook, or the
+ * first sheet of every data file in a folder.
+ */
+const loadSources = (dataPath: string): { name: string; rows: any[] }[] => {
+  if (!fs.existsSync(dataPath)) throw new UsageError(`Data path not found: ${dataPath}`);
+
+  const readBook = (file: string) => XLSX.read(fs.readFileSync(file), { type: 'buffer' });
+
+  if (fs.statSync(dataPath).isDirectory()) {
+    return fs.readdirSync(dataPath)
+      .filter((f) => DATA_EXTENSIONS.includes(path.extname(f).toLowerCase()))
+      .sort()
+      .map((f) => {
+        const wb = readBook(path.join(dataPath, f));
+        return { name: path.basename(f, path.extname(f)), rows: XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]]) as any[] };
+      });
+  }
+
+  const wb = readBook(dataPath);
+  return wb.SheetNames.map((name) => ({ name, rows: XLSX.utils.sheet_to_json(wb.Sheets[name]) as any[] }));
+};
+
+const writeReport = (file: string, summary: Parameters<typeof buildReportCsv>[0]) => {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.csv') {
+    fs.writeFileSync(file, buildReportCsv(summary));
+  } else if (ext === '.html') {
+    fs.writeFileSync(file, buildReportHtml(summary));
+  } else {
+    fs.writeFileSync(file, XLSX.write(buildReportWorkbook(summary), { type: 'buffer', bookType: 'xlsx' }));
+  }
+};
+
+const main = (): number => {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.config || !args.data) {
+    throw new UsageError('Both --config and --data are required.');
+  }
+  const outFile = args.out || 'validation_report.xlsx';
+  if (!REPORT_EXTENSIONS.includes(path.extname(outFile).toLowerCase())) {
+    throw new UsageError(`Unsupported report format '${path.extname(outFile)}'. Use .xlsx, .csv or .html.`);
+  }
+
+  const config = loadConfig(args.config);
+  const tableData: Record<string, any[]> = Object.fromEntries(config.tables.map((t) => [t.name, []]));
+  const expectedColumns = buildExpectedColumns(config.tables, config.configs, defaultExpectedColumns);
+
+  loadSources(args.data).forEach(({ name, rows }) => {
+    if (rows.length === 0) {
+      console.log(`  skip  ${name} (empty)`);
+      return;
+    }
+    const headers = Object.keys(normalizeHeaders([rows[0]], config.headerAliases).rows[0]).filter((k) => k !== 'id');
+    const table = guessTableType(name, headers, config.tables, expectedColumns);
+    if (!table) {
+      console.log(`  skip  ${name} (table not recognised)`);
+      return;
+    }
+    if (tableData[table].length > 0) {
+      console.log(`  skip  ${name} (${table} already loaded)`);
+      return;
+    }
+    tableData[table] = normalizeHeaders(rows, config.headerAliases, table).rows;
+    console.log(`  load  ${name} -> ${table} (${rows.length} rows)`);
+  });
+
+  const summary = runValidation(tableData, config.tables, config.configs, config.libraries, config.referenceMaterials);
+  const report = { ...summary, meta: buildRunMeta(tableData, config.tables, config.configs, config.libraries, config.version) };
+
+  console.log('');
+  console.log('Table            Rows  Critical  Warning');
+  config.tables.forEach(({ name: t }) => {
+    const rows = tableData[t].length;
+    const critical = report.errors.filter((e) => e.table === t && e.severity === ValidationSeverity.CRITICAL).length;
+    const warning = report.errors.filter((e) => e.table === t && e.severity === ValidationSeverity.WARNING).length;
+    if (rows === 0 && critical === 0 && warning === 0) return;
+    console.log(`${t.padEnd(15)} ${String(rows).padStart(5)} ${String(critical).padStart(9)} ${String(warning).padStart(8)}`);
+  });
+  console.log('');
+  console.log(`Critical errors: ${report.totalErrors}`);
+  console.log(`Warnings:        ${report.totalWarnings}`);
+
+  writeReport(outFile, report);
+  console.log(`Report written to ${outFile}`);
+
+  return report.totalErrors > 0 ? 1 : 0;
+};
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  if (error instanceof UsageError) {
+    console.error(`Error: ${error.message}`);
+    console.error('Usage: npm run validate -- --config userConfig.json --data <folder|workbook.xlsx> [--out report.xlsx]');
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 2;
+}
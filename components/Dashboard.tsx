@@ -7,12 +7,71 @@ import {
   SurveyRow, 
   IntervalRow,
   ValidationSummary,
+  ValidationError,
   ValidationSeverity,
   ColumnConfig,
-  LibraryItem
+  LibraryItem,
+  LookupRule,
+  KeyReferenceRule,
+  SurveyRules,
+  PointRules,
+  IntervalRules,
+  CrossTableRule,
+  CrossTableRuleType,
+  ConditionalRule,
+  ConditionOperator,
+  ConditionRequirement,
+  ExpressionRule,
+  SpecialValueRule,
+  SentinelCode,
+  HeaderAliasConfig,
+  HeaderAliasMap,
+  TableDefinition,
+  TableKind,
+  QaqcRules,
+  QaqcElement,
+  ReferenceMaterial,
+  GeotechRules,
+  StructureRules,
+  CompositionRule,
+  CompositionMode
 } from '../types';
-import { runValidation } from '../services/validationEngine';
-import { defaultConfigs, defaultLibraries, sampleAssay, sampleCollar, sampleLithology, sampleSurvey, sampleMineralization, sampleOxidation, sampleGeotech, sampleRQD, sampleVein, sampleAlteration, sampleDensity } from '../data/defaults';
+import {
+  runValidation,
+  revalidateSites,
+  DEFAULT_SURVEY_RULES,
+  DEFAULT_POINT_RULES,
+  DEFAULT_INTERVAL_RULES,
+  DEFAULT_QAQC_RULES,
+  DEFAULT_GEOTECH_RULES,
+  DEFAULT_STRUCTURE_RULES,
+  CROSS_TABLE_RULE_LABELS,
+  COMPOSITION_MODE_LABELS,
+  CONDITION_OPERATOR_LABELS,
+  CONDITION_REQUIREMENT_LABELS,
+  describeConditionalRule
+} from '../services/validationEngine';
+import { desurvey, orientStructures, DesurveyMethod } from '../services/desurvey';
+import { readWorkbookSheets, WorkbookSheet } from '../services/workbookImport';
+import { parseExpression, EXPRESSION_FUNCTIONS } from '../services/expressionEngine';
+import { normalizeHeaders, formatHeader, HeaderMapping } from '../services/headerMapping';
+import { buildRunMeta, buildReportWorkbook, buildReportCsv, buildReportHtml } from '../services/reportExport';
+import { buildAnnotatedWorkbook, writeAnnotatedWorkbook } from '../services/annotatedExport';
+import { collectFixes, applyFixes, ProposedFix } from '../services/autoFix';
+import { EMPTY_HISTORY, EditHistory, recordEdit, undoEdit, redoEdit, changedSiteIds } from '../services/editHistory';
+import {
+  KIND_KEY_COLUMNS,
+  KIND_LABELS,
+  CUSTOM_TABLE_KINDS,
+  getCollarTable,
+  defaultKeyReference,
+  findTableReferences,
+  createTableDefinition,
+  mergeTableDefinitions,
+  ensureTableConfigs,
+  buildExpectedColumns
+} from '../services/tableRegistry';
+import { CONFIG_VERSION, defaultExpectedColumns, defaultConfigs, defaultLibraries, defaultSpecialValueRule, defaultHeaderAliases, defaultTableDefinitions, sampleTableData } from '../data/defaults';
 // Import the User Config from TS file
 import { userConfig } from '../data/userConfig';
 // Import Supabase functions for config persistence
@@ -36,57 +95,24 @@ import {
   LucideRotateCcw, 
   LucideInfo, 
   LucideSearch,
-  LucideSave
+  LucideSave,
+  LucideWand2,
+  LucideUndo2,
+  LucideRedo2
 } from 'lucide-react';
-import * as XLSX from 'xlsx';
-
-// --- Constants (UPPERCASE) ---
-
-const defaultExpectedColumns: Record<string, string[]> = {
-  [TableType.COLLAR]: ['SITE_ID', 'END_DEPTH', 'PROJECT_CODE', 'START_DATE', 'END_DATE', 'DRILL_TYPE', 'X', 'Y', 'Z'],
-  [TableType.SURVEY]: ['SITE_ID', 'DEPTH', 'AZIMUTH', 'DIP', 'SURVEY_METHOD', 'DATE'],
-  [TableType.LITHOLOGY]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'LITH_CODE', 'DESCRIPTION', 'TEXTURE', 'ALTERATION', 'WEATHERING'],
-  [TableType.ASSAY]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'SAMPLE_ID', 'AU_PPM', 'AG_PPM', 'CU_PCT', 'DENSITY', 'LAB_JOB_NO', 'WEIGHT'],
-  [TableType.MINERALIZATION]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'MIN_CODE', 'PERCENTAGE', 'STYLE', 'INTENSITY'],
-  [TableType.OXIDATION]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'OX_CODE', 'INTENSITY', 'BASE_OF_COMPLETE_OX'],
-  [TableType.GEOTECH]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'RECOVERY', 'ROCK_STRENGTH', 'WEATHERING', 'DEFECT_COUNT'],
-  [TableType.RQD]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'RQD_PERCENT', 'FRACTURE_FREQUENCY'],
-  [TableType.VEIN]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'VEIN_TYPE', 'PERCENTAGE', 'ALPHA_ANGLE', 'BETA_ANGLE'],
-  [TableType.ALTERATION]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'ALTER_TYPE', 'INTENSITY', 'MINERALOGY'],
-  [TableType.DENSITY]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'DENSITY_VALUE', 'MEASUREMENT_METHOD'],
-};
+import XLSX from 'xlsx-js-style';
 
 // --- Helper Functions ---
 
-const normalizeHeaders = (data: any[]): any[] => {
-  if (data.length === 0) return [];
-  
-  // Standardize keys to UPPERCASE SNAKE_CASE
-  // e.g., "Hole ID" -> "SITE_ID", "Au (ppm)" -> "AU_PPM"
-  return data.map(row => {
-    const newRow: any = {};
-    Object.keys(row).forEach(key => {
-      let newKey = key.toUpperCase().trim()
-        .replace(/[\s\(\)\.]+/g, '_') // Replace spaces, brackets, dots with underscore
-        .replace(/_+$/, ''); // Remove trailing underscores
-
-      // Common mappings to Standard Keys
-      if (['HOLEID', 'HOLE_ID', 'SITEID', 'BH_ID', 'BHID', 'BOREHOLE_ID', 'HOLE'].includes(newKey)) {
-        newKey = 'SITE_ID';
-      }
-      
-      // Map variations of From/To
-      if (['FROM', 'START', 'DEPTH_START'].includes(newKey)) newKey = 'DEPTH_FROM';
-      if (['TO', 'END', 'DEPTH_END'].includes(newKey)) newKey = 'DEPTH_TO';
-      
-      if (['ID', 'RECORD_ID'].includes(newKey)) newKey = 'ROW_ID'; // Avoid conflict if ID is reserved
-
-      newRow[newKey] = row[key];
-    });
-    // Ensure every row has a unique internal ID for React keys and validation references
-    if (!newRow.id) newRow.id = Math.random().toString(36).substr(2, 9);
-    return newRow;
-  });
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
 };
 
 // --- Subcomponents ---
@@ -105,6 +131,7 @@ const LibraryManager = ({
   // Code entry state
   const [newCode, setNewCode] = useState('');
   const [newDesc, setNewDesc] = useState('');
+  const [newParent, setNewParent] = useState('');
   
   // File Import Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -143,13 +170,40 @@ const LibraryManager = ({
     if (!activeLib || !newCode.trim()) return;
     const updatedLib = {
       ...activeLib,
-      items: [...activeLib.items, { code: newCode.trim(), description: newDesc.trim() }]
+      items: [...activeLib.items, { code: newCode.trim(), description: newDesc.trim(), ...(newParent ? { parent: newParent } : {}) }]
     };
     setLibraries(libraries.map(l => l.id === activeLibId ? updatedLib : l));
     setNewCode('');
     setNewDesc('');
   };
 
+  // Update one code's hierarchy / status fields; empty values are dropped
+  const handleUpdateCode = (code: string, changes: Partial<LibraryItem>) => {
+    if (!activeLib) return;
+    const updatedLib = {
+      ...activeLib,
+      items: activeLib.items.map(i => {
+        if (i.code !== code) return i;
+        const next: LibraryItem = { ...i, ...changes };
+        (['parent', 'replacedBy', 'validFrom', 'validTo'] as const).forEach(k => { if (!next[k]) delete next[k]; });
+        if (!next.deprecated) { delete next.deprecated; delete next.replacedBy; }
+        return next;
+      })
+    };
+    setLibraries(libraries.map(l => l.id === activeLibId ? updatedLib : l));
+  };
+
+  // Ancestor chain of a code, e.g. IGN › VOLC
+  const codePath = (item: LibraryItem): string => {
+    const path: string[] = [];
+    let parent = item.parent;
+    while (parent && !path.includes(parent)) {
+      path.unshift(parent);
+      parent = activeLib?.items.find(i => i.code === parent)?.parent;
+    }
+    return path.join(' › ');
+  };
+
   const handleDeleteCode = (code: string) => {
     if (!activeLib) return;
     const updatedLib = {
@@ -191,13 +245,14 @@ const LibraryManager = ({
             const libName = row[0] ? String(row[0]).trim() : '';
             const code = row[1] ? String(row[1]).trim() : '';
             const desc = row[2] ? String(row[2]).trim() : '';
+            const parent = row[3] ? String(row[3]).trim() : '';
 
             if (libName && code) {
                if (!libsToCreate[libName]) {
                  libsToCreate[libName] = [];
                }
                if (!libsToCreate[libName].some(i => i.code === code)) {
-                 libsToCreate[libName].push({ code, description: desc });
+                 libsToCreate[libName].push({ code, description: desc, ...(parent ? { parent } : {}) });
                  count++;
                }
             }
@@ -277,12 +332,14 @@ const LibraryManager = ({
             const keys = Object.keys(row);
             const codeKey = keys.find(k => ['code', 'id'].includes(k.toLowerCase())) || keys[0];
             const descKey = keys.find(k => ['description', 'desc', 'name', 'meaning'].includes(k.toLowerCase())) || keys[1];
+            const parentKey = keys.find(k => ['parent', 'parent_code'].includes(k.toLowerCase()));
 
             const code = row[codeKey] ? String(row[codeKey]).trim() : '';
             const description = (descKey && row[descKey]) ? String(row[descKey]).trim() : '';
+            const parent = (parentKey && row[parentKey]) ? String(row[parentKey]).trim() : '';
 
             if (code) {
-               newItems.push({ code, description });
+               newItems.push({ code, description, ...(parent ? { parent } : {}) });
             }
           });
 
@@ -354,7 +411,7 @@ const LibraryManager = ({
             />
             <p className="text-[10px] text-slate-400 mt-2 text-center flex flex-col items-center justify-center gap-1">
               <span className="flex items-center gap-1 font-bold"><LucideInfo className="w-3 h-3" /> Format Required:</span>
-              <span>Col A: Library Name | Col B: Code | Col C: Desc</span>
+              <span>Col A: Library Name | Col B: Code | Col C: Desc | Col D: Parent (optional)</span>
             </p>
           </div>
 
@@ -418,6 +475,15 @@ const LibraryManager = ({
                   onChange={e => setNewDesc(e.target.value)}
                   onKeyDown={e => e.key === 'Enter' && handleAddCode()}
                 />
+                <select
+                  className="w-1/5 px-2 py-1.5 border rounded text-sm bg-white text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer"
+                  value={newParent}
+                  onChange={e => setNewParent(e.target.value)}
+                  title="Parent code (optional)"
+                >
+                  <option value="">No parent</option>
+                  {activeLib.items.map(i => <option key={i.code} value={i.code}>{i.code}</option>)}
+                </select>
                 <button 
                   onClick={handleAddCode}
                   className="px-4 py-1.5 bg-emerald-600 text-white text-xs font-semibold rounded hover:bg-emerald-700"
@@ -432,17 +498,71 @@ const LibraryManager = ({
                     <tr>
                       <th className="px-4 py-2">Code</th>
                       <th className="px-4 py-2">Description</th>
+                      <th className="px-4 py-2">Parent</th>
+                      <th className="px-4 py-2">Status</th>
+                      <th className="px-4 py-2">Valid From / To</th>
                       <th className="px-4 py-2 text-right">Action</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
                     {activeLib.items.length === 0 ? (
-                       <tr><td colSpan={3} className="px-4 py-8 text-center text-slate-400 italic">No codes defined yet.</td></tr>
+                       <tr><td colSpan={6} className="px-4 py-8 text-center text-slate-400 italic">No codes defined yet.</td></tr>
                     ) : (
                       activeLib.items.map((item, idx) => (
-                        <tr key={idx} className="hover:bg-slate-50 group">
-                          <td className="px-4 py-2 font-mono font-medium text-indigo-700">{item.code}</td>
+                        <tr key={idx} className={`hover:bg-slate-50 group ${item.deprecated ? 'bg-amber-50/50' : ''}`}>
+                          <td className="px-4 py-2 font-mono font-medium text-indigo-700">
+                            <span className={item.deprecated ? 'line-through text-slate-400' : ''}>{item.code}</span>
+                            {item.parent && <span className="block text-[10px] font-normal text-slate-400">{codePath(item)}</span>}
+                          </td>
                           <td className="px-4 py-2 text-slate-600">{item.description}</td>
+                          <td className="px-4 py-2">
+                            <select
+                              className="px-1 py-1 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                              value={item.parent || ''}
+                              onChange={e => handleUpdateCode(item.code, { parent: e.target.value })}
+                            >
+                              <option value="">—</option>
+                              {activeLib.items.filter(i => i.code !== item.code).map(i => <option key={i.code} value={i.code}>{i.code}</option>)}
+                            </select>
+                          </td>
+                          <td className="px-4 py-2">
+                            <label className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                className="w-3.5 h-3.5 text-amber-600 rounded border-slate-300 cursor-pointer"
+                                checked={!!item.deprecated}
+                                onChange={e => handleUpdateCode(item.code, { deprecated: e.target.checked })}
+                              />
+                              Deprecated
+                            </label>
+                            {item.deprecated && (
+                              <select
+                                className="mt-1 px-1 py-1 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                                value={item.replacedBy || ''}
+                                onChange={e => handleUpdateCode(item.code, { replacedBy: e.target.value })}
+                                title="Replacement code"
+                              >
+                                <option value="">No replacement</option>
+                                {activeLib.items.filter(i => i.code !== item.code && !i.deprecated).map(i => <option key={i.code} value={i.code}>→ {i.code}</option>)}
+                              </select>
+                            )}
+                          </td>
+                          <td className="px-4 py-2">
+                            <div className="flex flex-col gap-1">
+                              <input
+                                type="date"
+                                className="px-1 py-0.5 border border-slate-200 rounded text-[10px] text-slate-600 outline-none focus:ring-1 focus:ring-indigo-500"
+                                value={item.validFrom || ''}
+                                onChange={e => handleUpdateCode(item.code, { validFrom: e.target.value })}
+                              />
+                              <input
+                                type="date"
+                                className="px-1 py-0.5 border border-slate-200 rounded text-[10px] text-slate-600 outline-none focus:ring-1 focus:ring-indigo-500"
+                                value={item.validTo || ''}
+                                onChange={e => handleUpdateCode(item.code, { validTo: e.target.value })}
+                              />
+                            </div>
+                          </td>
                           <td className="px-4 py-2 text-right">
                              <button onClick={() => handleDeleteCode(item.code)} className="text-slate-300 hover:text-red-500">
                                <LucideX className="w-4 h-4" />
@@ -466,22 +586,630 @@ const LibraryManager = ({
   );
 };
 
+const ReferenceMaterialManager = ({
+  materials,
+  setMaterials
+}: {
+  materials: ReferenceMaterial[],
+  setMaterials: (materials: ReferenceMaterial[]) => void
+}) => {
+  const [activeId, setActiveId] = useState<string>(() => materials.length > 0 ? materials[0].id : '');
+  const [newCode, setNewCode] = useState('');
+  const [newValue, setNewValue] = useState<{ column: string, expected: string, sd: string }>({ column: '', expected: '', sd: '' });
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!materials.some(m => m.id === activeId)) setActiveId(materials[0]?.id || '');
+  }, [materials, activeId]);
+
+  const active = materials.find(m => m.id === activeId);
+
+  const handleAddMaterial = () => {
+    const code = newCode.trim();
+    if (!code) return;
+    if (materials.some(m => m.code.toUpperCase() === code.toUpperCase())) {
+      alert(`Standard '${code}' already exists.`);
+      return;
+    }
+    const id = code.toLowerCase().replace(/\s+/g, '_') + '_' + Math.random().toString(36).substr(2, 4);
+    setMaterials([...materials, { id, code, description: '', values: [] }]);
+    setNewCode('');
+    setActiveId(id);
+  };
+
+  const handleDeleteMaterial = (id: string) => {
+    if (confirm('Delete this standard? Samples using it will be reported as unknown standards.')) {
+      setMaterials(materials.filter(m => m.id !== id));
+    }
+  };
+
+  const updateActive = (changes: Partial<ReferenceMaterial>) => {
+    setMaterials(materials.map(m => m.id === activeId ? { ...m, ...changes } : m));
+  };
+
+  const handleAddValue = () => {
+    if (!active) return;
+    const column = formatHeader(newValue.column);
+    const expected = parseFloat(newValue.expected);
+    const sd = parseFloat(newValue.sd);
+    if (!column || isNaN(expected) || isNaN(sd) || sd <= 0) {
+      alert('Enter a column, an expected value and a standard deviation greater than zero.');
+      return;
+    }
+    updateActive({ values: [...active.values.filter(v => v.column !== column), { column, expected, sd }] });
+    setNewValue({ column: '', expected: '', sd: '' });
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      const bstr = evt.target?.result;
+      if (!bstr) return;
+      try {
+        const wb = XLSX.read(bstr, { type: 'binary' });
+        const rows = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]], { header: 1 }) as any[][];
+
+        const next = materials.map(m => ({ ...m, values: [...m.values] }));
+        let count = 0;
+        rows.forEach(row => {
+          const code = row[0] ? String(row[0]).trim() : '';
+          const column = row[1] ? formatHeader(String(row[1])) : '';
+          const expected = parseFloat(row[2]);
+          const sd = parseFloat(row[3]);
+          // Skips the header row and incomplete lines
+          if (!code || !column || isNaN(expected) || isNaN(sd) || sd <= 0) return;
+
+          let material = next.find(m => m.code.toUpperCase() === code.toUpperCase());
+          if (!material) {
+            material = { id: code.toLowerCase().replace(/\s+/g, '_') + '_' + Math.random().toString(36).substr(2, 4), code, description: '', values: [] };
+            next.push(material);
+          }
+          material.values = [...material.values.filter(v => v.column !== column), { column, expected, sd }];
+          count++;
+        });
+
+        if (count === 0) {
+          alert("No valid data found. Ensure Column A=Standard Code, B=Column, C=Expected Value, D=Standard Deviation.");
+          return;
+        }
+        setMaterials(next);
+        alert(`Imported ${count} certified values.`);
+      } catch (error) {
+        console.error(error);
+        alert("Failed to parse file. Please ensure it is a valid Excel or CSV file.");
+      }
+    };
+    reader.readAsBinaryString(file);
+    if (importRef.current) importRef.current.value = '';
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 h-[500px] flex flex-col">
+      <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+        <LucideBook className="w-5 h-5 text-indigo-600" />
+        Reference Materials
+      </h2>
+      <p className="text-xs text-slate-500 mb-4">Certified values of the standards inserted with assay batches. Used by the QAQC rules of a table.</p>
+
+      <div className="flex flex-1 gap-6 min-h-0">
+        {/* Sidebar: Standards */}
+        <div className="w-1/3 border-r border-slate-100 pr-4 flex flex-col">
+          <div className="flex gap-2 mb-2">
+            <input
+              className="flex-1 px-3 py-2 bg-slate-700 border border-transparent text-white placeholder-slate-400 rounded-md text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder="New Standard Code..."
+              value={newCode}
+              onChange={e => setNewCode(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAddMaterial()}
+            />
+            <button
+              onClick={handleAddMaterial}
+              className="p-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+            >
+              <LucidePlus className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="mb-4 pb-4 border-b border-slate-100">
+            <button
+              onClick={() => importRef.current?.click()}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-300 text-slate-700 rounded-md hover:bg-slate-50 text-sm font-medium transition-colors"
+            >
+              <LucideUpload className="w-4 h-4" />
+              Import Certified Values
+            </button>
+            <input
+              type="file"
+              ref={importRef}
+              onChange={handleImport}
+              className="hidden"
+              accept=".csv, .xlsx, .xls"
+            />
+            <p className="text-[10px] text-slate-400 mt-2 text-center flex flex-col items-center justify-center gap-1">
+              <span className="flex items-center gap-1 font-bold"><LucideInfo className="w-3 h-3" /> Format Required:</span>
+              <span>Col A: Code | Col B: Column | Col C: Expected | Col D: SD</span>
+            </p>
+          </div>
+
+          <div className="flex-1 overflow-y-auto space-y-1">
+            {materials.length === 0 && (
+                <div className="text-xs text-slate-400 text-center py-4 italic">No standards defined.</div>
+            )}
+            {materials.map(m => (
+              <div
+                key={m.id}
+                className={`group flex items-center justify-between px-3 py-2 rounded-md cursor-pointer text-sm font-medium transition-colors ${activeId === m.id ? 'bg-indigo-50 text-indigo-700 border border-indigo-200' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                <span onClick={() => setActiveId(m.id)} className="flex-1 font-mono">{m.code}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDeleteMaterial(m.id); }}
+                  className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                  title="Delete this standard"
+                >
+                  <LucideTrash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Main: Certified values */}
+        <div className="flex-1 flex flex-col min-h-0">
+          {active ? (
+            <>
+              <div className="flex items-center gap-3 mb-2">
+                 <h3 className="font-semibold text-slate-800 font-mono">{active.code}</h3>
+                 <input
+                   className="flex-1 px-3 py-1.5 border rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                   placeholder="Description (e.g. OREAS 45e, Cu-Au ore)"
+                   value={active.description}
+                   onChange={e => updateActive({ description: e.target.value })}
+                 />
+              </div>
+
+              <div className="flex gap-2 mb-3 bg-slate-50 p-3 rounded-md border border-slate-100">
+                <input
+                  className="w-1/3 px-3 py-1.5 border rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  placeholder="Column (e.g. AU_PPM)"
+                  value={newValue.column}
+                  onChange={e => setNewValue({ ...newValue, column: e.target.value })}
+                />
+                <input
+                  type="number"
+                  className="flex-1 px-3 py-1.5 border rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  placeholder="Expected"
+                  value={newValue.expected}
+                  onChange={e => setNewValue({ ...newValue, expected: e.target.value })}
+                />
+                <input
+                  type="number"
+                  className="flex-1 px-3 py-1.5 border rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  placeholder="1 SD"
+                  value={newValue.sd}
+                  onChange={e => setNewValue({ ...newValue, sd: e.target.value })}
+                  onKeyDown={e => e.key === 'Enter' && handleAddValue()}
+                />
+                <button
+                  onClick={handleAddValue}
+                  className="px-4 py-1.5 bg-emerald-600 text-white text-xs font-semibold rounded hover:bg-emerald-700"
+                >
+                  Add Value
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto border border-slate-200 rounded-md">
+                <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 text-slate-500 text-xs uppercase sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2">Column</th>
+                      <th className="px-4 py-2">Expected</th>
+                      <th className="px-4 py-2">SD</th>
+                      <th className="px-4 py-2">±2SD / ±3SD</th>
+                      <th className="px-4 py-2 text-right">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {active.values.length === 0 ? (
+                       <tr><td colSpan={5} className="px-4 py-8 text-center text-slate-400 italic">No certified values yet.</td></tr>
+                    ) : (
+                      active.values.map(v => (
+                        <tr key={v.column} className="hover:bg-slate-50 group">
+                          <td className="px-4 py-2 font-mono font-medium text-indigo-700">{v.column}</td>
+                          <td className="px-4 py-2 text-slate-600">{v.expected}</td>
+                          <td className="px-4 py-2 text-slate-600">{v.sd}</td>
+                          <td className="px-4 py-2 text-xs text-slate-400 font-mono">
+                            {+(v.expected - 2 * v.sd).toPrecision(6)}–{+(v.expected + 2 * v.sd).toPrecision(6)} / {+(v.expected - 3 * v.sd).toPrecision(6)}–{+(v.expected + 3 * v.sd).toPrecision(6)}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                             <button onClick={() => updateActive({ values: active.values.filter(x => x.column !== v.column) })} className="text-slate-300 hover:text-red-500">
+                               <LucideX className="w-4 h-4" />
+                             </button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-center justify-center h-full text-slate-400">
+              Select or create a standard to edit its certified values
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const HeaderAliasManager = ({
+  tables,
+  headerAliases,
+  setHeaderAliases
+}: {
+  tables: TableDefinition[],
+  headerAliases: HeaderAliasConfig,
+  setHeaderAliases: (aliases: HeaderAliasConfig) => void
+}) => {
+  const [scope, setScope] = useState<string>('GLOBAL');
+  const [newCanonical, setNewCanonical] = useState('');
+  const [newAlias, setNewAlias] = useState('');
+
+  const activeMap: HeaderAliasMap = scope === 'GLOBAL' ? headerAliases.global : (headerAliases.tables[scope] || {});
+
+  const setActiveMap = (map: HeaderAliasMap) => {
+    if (scope === 'GLOBAL') {
+      setHeaderAliases({ ...headerAliases, global: map });
+    } else {
+      setHeaderAliases({ ...headerAliases, tables: { ...headerAliases.tables, [scope]: map } });
+    }
+  };
+
+  const handleAddAlias = () => {
+    const canonical = formatHeader(newCanonical);
+    const alias = newAlias.trim();
+    if (!canonical || !alias) return;
+    const existing = activeMap[canonical] || [];
+    if (!existing.some(a => formatHeader(a) === formatHeader(alias))) {
+      setActiveMap({ ...activeMap, [canonical]: [...existing, alias] });
+    }
+    setNewAlias('');
+  };
+
+  const handleRemoveAlias = (canonical: string, alias: string) => {
+    const remaining = (activeMap[canonical] || []).filter(a => a !== alias);
+    const { [canonical]: _removed, ...rest } = activeMap;
+    setActiveMap(remaining.length > 0 ? { ...rest, [canonical]: remaining } : rest);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+        <LucideLayers className="w-5 h-5 text-indigo-600" />
+        Header Aliases
+      </h2>
+      <p className="text-xs text-slate-500 mb-4">
+        Map lab and contractor headers (e.g. "mFrom", "Depth_From_m", "BHID") to canonical columns. Table aliases take precedence over global aliases.
+      </p>
+
+      <div className="flex gap-2 mb-4 overflow-x-auto">
+        {['GLOBAL', ...tables.map(t => t.name)].map(t => (
+          <button
+            key={t}
+            onClick={() => setScope(t)}
+            className={`px-3 py-1.5 rounded-md text-xs font-bold uppercase tracking-wide whitespace-nowrap transition-colors ${
+              scope === t ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'
+            }`}
+          >
+            {t}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-3 bg-slate-50 p-3 rounded-md border border-slate-100">
+        <input
+          className="w-1/3 px-3 py-1.5 border rounded text-sm font-mono uppercase placeholder:normal-case focus:ring-2 focus:ring-indigo-500 outline-none"
+          placeholder="Canonical column (e.g. DEPTH_FROM)"
+          value={newCanonical}
+          onChange={e => setNewCanonical(e.target.value)}
+        />
+        <input
+          className="flex-1 px-3 py-1.5 border rounded text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+          placeholder="Source header (e.g. mFrom)"
+          value={newAlias}
+          onChange={e => setNewAlias(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAddAlias()}
+        />
+        <button
+          onClick={handleAddAlias}
+          className="px-4 py-1.5 bg-emerald-600 text-white text-xs font-semibold rounded hover:bg-emerald-700"
+        >
+          Add Alias
+        </button>
+      </div>
+
+      <div className="border border-slate-200 rounded-md divide-y divide-slate-100">
+        {Object.keys(activeMap).length === 0 ? (
+          <div className="px-4 py-6 text-center text-slate-400 italic text-sm">No aliases defined for {scope}.</div>
+        ) : (
+          Object.entries(activeMap).map(([canonical, aliases]) => (
+            <div key={canonical} className="px-4 py-2 flex items-center gap-3">
+              <span className="w-40 font-mono font-semibold text-sm text-indigo-700">{canonical}</span>
+              <div className="flex flex-wrap gap-1.5">
+                {aliases.map(alias => (
+                  <span key={alias} className="text-xs font-mono px-2 py-0.5 rounded border bg-slate-50 text-slate-600 border-slate-200 flex items-center gap-1">
+                    {alias}
+                    <button onClick={() => handleRemoveAlias(canonical, alias)} className="text-slate-300 hover:text-red-500">
+                      <LucideX className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Format/parse sentinel codes as "CODE=Meaning, CODE=Meaning"
+const formatSentinels = (sentinels: SentinelCode[]) =>
+  sentinels.map(s => s.meaning ? `${s.code}=${s.meaning}` : s.code).join(', ');
+
+const parseSentinels = (text: string): SentinelCode[] =>
+  text.split(',')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => {
+      const [code, ...meaning] = part.split('=');
+      return { code: code.trim(), meaning: meaning.join('=').trim() };
+    });
+
+const SpecialValuesEditor = ({
+  rule,
+  onChange
+}: {
+  rule?: SpecialValueRule,
+  onChange: (rule?: SpecialValueRule) => void
+}) => {
+  const [sentinelText, setSentinelText] = useState(formatSentinels(rule?.sentinels || []));
+
+  useEffect(() => {
+    setSentinelText(formatSentinels(rule?.sentinels || []));
+  }, [rule]);
+
+  return (
+    <div className="mt-2">
+      <label className="flex items-center gap-2 text-[10px] text-slate-500 font-semibold uppercase cursor-pointer">
+        <input
+          type="checkbox"
+          className="w-3.5 h-3.5 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+          checked={!!rule}
+          onChange={(e) => onChange(e.target.checked ? { ...defaultSpecialValueRule } : undefined)}
+        />
+        Detection limits &amp; sentinel codes
+      </label>
+      {rule && (
+        <div className="border border-slate-200 rounded-md p-3 bg-white mt-2 space-y-2">
+          <div className="flex items-center gap-3">
+            <div>
+              <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Below DL</label>
+              <input
+                className="w-14 px-2 py-1 bg-slate-800 text-white rounded text-xs font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+                value={rule.belowPrefix}
+                onChange={(e) => onChange({ ...rule, belowPrefix: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Above Limit</label>
+              <input
+                className="w-14 px-2 py-1 bg-slate-800 text-white rounded text-xs font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+                value={rule.abovePrefix}
+                onChange={(e) => onChange({ ...rule, abovePrefix: e.target.value })}
+              />
+            </div>
+            <label className="flex items-center gap-1.5 text-xs text-slate-600 mt-4 cursor-pointer" title="Resolve '<0.005' to 0.0025 for downstream calculations">
+              <input
+                type="checkbox"
+                className="w-3.5 h-3.5 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                checked={rule.substituteHalfDetectionLimit}
+                onChange={(e) => onChange({ ...rule, substituteHalfDetectionLimit: e.target.checked })}
+              />
+              Use ½ DL
+            </label>
+          </div>
+          <div>
+            <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Sentinel Codes</label>
+            <input
+              className="w-full px-2 py-1.5 bg-slate-800 text-white rounded text-xs font-mono outline-none focus:ring-1 focus:ring-indigo-500 placeholder-slate-500"
+              placeholder="-99=Not analysed, IS=Insufficient sample"
+              value={sentinelText}
+              onChange={(e) => setSentinelText(e.target.value)}
+              onBlur={() => onChange({ ...rule, sentinels: parseSentinels(sentinelText) })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TableRegistryManager = ({
+  tables,
+  configs,
+  onAddTable,
+  onRemoveTable
+}: {
+  tables: TableDefinition[],
+  configs: TableConfig[],
+  onAddTable: (table: TableDefinition) => void,
+  onRemoveTable: (name: string) => void
+}) => {
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<TableKind>('interval');
+  const [newKeyColumns, setNewKeyColumns] = useState('');
+
+  const handleAddTable = () => {
+    if (!newName.trim()) return;
+    const table = createTableDefinition(newName, newKind, newKeyColumns.split(','));
+    if (tables.some(t => t.name === table.name)) {
+      alert(`A table named ${table.name} already exists.`);
+      return;
+    }
+    onAddTable(table);
+    setNewName('');
+    setNewKeyColumns('');
+  };
+
+  const handleRemoveTable = (table: TableDefinition) => {
+    const references = findTableReferences(table.name, configs);
+    if (references.length > 0) {
+      alert(`${table.name} cannot be deleted while other tables refer to it:\n${references.join('\n')}\n\nRemove these rules first.`);
+      return;
+    }
+    if (confirm(`Delete table ${table.name}? Its configuration and loaded data will be removed.`)) {
+      onRemoveTable(table.name);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+      <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+        <LucideDatabase className="w-5 h-5 text-indigo-600" />
+        Data Tables
+      </h2>
+      <p className="text-xs text-slate-500 mb-4">
+        The kind of a table decides its checks: interval tables are checked for gaps and overlaps, point tables hold single-depth readings and free tables only get column rules.
+      </p>
+
+      <div className="flex gap-2 mb-3 bg-slate-50 p-3 rounded-md border border-slate-100">
+        <input
+          className="w-1/4 px-3 py-1.5 border rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          placeholder="Table name (e.g. MagSus)"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+        />
+        <div className="relative w-48">
+          <select
+            className="w-full appearance-none pl-3 pr-8 py-1.5 border rounded text-sm bg-white text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer"
+            value={newKind}
+            onChange={e => setNewKind(e.target.value as TableKind)}
+          >
+            {CUSTOM_TABLE_KINDS.map(kind => (
+              <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
+            <LucideChevronDown className="h-3 w-3" />
+          </div>
+        </div>
+        <input
+          className="flex-1 px-3 py-1.5 border rounded text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100 disabled:text-slate-400"
+          placeholder={newKind === 'free' ? 'Key columns (e.g. SAMPLE_ID)' : KIND_KEY_COLUMNS[newKind].join(', ')}
+          value={newKind === 'free' ? newKeyColumns : ''}
+          disabled={newKind !== 'free'}
+          onChange={e => setNewKeyColumns(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAddTable()}
+        />
+        <button
+          onClick={handleAddTable}
+          disabled={!newName.trim()}
+          className="px-4 py-1.5 bg-emerald-600 text-white text-xs font-semibold rounded hover:bg-emerald-700 disabled:opacity-50"
+        >
+          Add Table
+        </button>
+      </div>
+
+      <div className="border border-slate-200 rounded-md overflow-hidden">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+            <tr>
+              <th className="px-4 py-2">Table</th>
+              <th className="px-4 py-2">Kind</th>
+              <th className="px-4 py-2">Key Columns</th>
+              <th className="px-4 py-2 text-right">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {tables.map(table => (
+              <tr key={table.name} className="hover:bg-slate-50">
+                <td className="px-4 py-2">
+                  <span className="font-mono font-semibold text-indigo-700">{table.name}</span>
+                  {table.label !== table.name && <span className="text-slate-400 ml-2">{table.label}</span>}
+                </td>
+                <td className="px-4 py-2 text-slate-600">{KIND_LABELS[table.kind]}</td>
+                <td className="px-4 py-2 font-mono text-xs text-slate-500">{table.keyColumns.join(', ') || '-'}</td>
+                <td className="px-4 py-2 text-right">
+                  {table.isCustom ? (
+                    <button onClick={() => handleRemoveTable(table)} className="text-slate-300 hover:text-red-500" title="Delete this table">
+                      <LucideTrash2 className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <span className="text-[10px] text-slate-400 uppercase">Built-in</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
 const ConfigPanel = ({ 
+  tables,
   configs, 
   libraries, 
   setConfigs,
   availableColumnsMap,
 }: { 
+  tables: TableDefinition[],
   configs: TableConfig[], 
   libraries: CodeLibrary[], 
   setConfigs: (c: TableConfig[]) => void,
   availableColumnsMap: Record<string, string[]>,
   
 }) => {
-  const [activeTab, setActiveTab] = useState<TableType>(TableType.LITHOLOGY);
+  const [activeTab, setActiveTab] = useState<string>(TableType.LITHOLOGY);
   const [newColName, setNewColName] = useState('');
   const [selectedColumnToAdd, setSelectedColumnToAdd] = useState('');
+  const [newKeyColumns, setNewKeyColumns] = useState<string[]>([]);
+  const [newCrossRule, setNewCrossRule] = useState<CrossTableRule>({
+    type: 'covered_by',
+    targetTable: TableType.LITHOLOGY,
+    severity: ValidationSeverity.CRITICAL,
+  });
+  const [newConditional, setNewConditional] = useState<ConditionalRule>({
+    ifColumn: '',
+    operator: 'equals',
+    ifValue: '',
+    thenColumn: '',
+    requirement: 'required',
+    thenValue: '',
+    severity: ValidationSeverity.CRITICAL,
+  });
+  const [newExpression, setNewExpression] = useState<ExpressionRule>({
+    expression: '',
+    message: '',
+    severity: ValidationSeverity.WARNING,
+  });
+  const [newComposition, setNewComposition] = useState<CompositionRule>({
+    columns: [],
+    mode: 'max_100',
+    tolerance: 0,
+    acrossRows: true,
+    severity: ValidationSeverity.WARNING,
+  });
+  const [newCompositionColumns, setNewCompositionColumns] = useState('');
+  const [newQaqcElement, setNewQaqcElement] = useState<QaqcElement>({ column: '', detectionLimit: 0 });
 
+  const activeTable = tables.find(t => t.name === activeTab);
   const currentConfig = configs.find(c => c.tableType === activeTab);
   const detectedColumns = availableColumnsMap[activeTab] || [];
   
@@ -500,6 +1228,205 @@ const ConfigPanel = ({
     }));
   };
 
+  const updateSurveyRules = (changes: Partial<SurveyRules>) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, surveyRules: { ...DEFAULT_SURVEY_RULES, ...c.surveyRules, ...changes } };
+    }));
+  };
+
+  const updatePointRules = (changes: Partial<PointRules>) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, pointRules: { ...DEFAULT_POINT_RULES, ...c.pointRules, ...changes } };
+    }));
+  };
+
+  const updateIntervalRules = (changes: Partial<IntervalRules>) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, intervalRules: { ...DEFAULT_INTERVAL_RULES, ...c.intervalRules, ...changes } };
+    }));
+  };
+
+  // Other interval tables a cross-table rule can compare against
+  const crossTargets = tables.filter(t => t.kind === 'interval' && t.name !== activeTab).map(t => t.name);
+
+  const addCrossTableRule = () => {
+    const targetTable = crossTargets.includes(newCrossRule.targetTable) ? newCrossRule.targetTable : crossTargets[0];
+    if (!targetTable) return;
+    const rule = { ...newCrossRule, targetTable };
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      const existing = c.crossTableRules || [];
+      if (existing.some(r => r.type === rule.type && r.targetTable === rule.targetTable)) return c;
+      return { ...c, crossTableRules: [...existing, rule] };
+    }));
+  };
+
+  const removeCrossTableRule = (index: number) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, crossTableRules: (c.crossTableRules || []).filter((_, i) => i !== index) };
+    }));
+  };
+
+  const toggleGeotech = (enabled: boolean) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      if (enabled) return { ...c, geotechRules: { ...DEFAULT_GEOTECH_RULES, ...c.geotechRules } };
+      const { geotechRules, ...rest } = c;
+      return rest;
+    }));
+  };
+
+  const updateGeotechRules = (changes: Partial<GeotechRules>) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, geotechRules: { ...DEFAULT_GEOTECH_RULES, ...c.geotechRules, ...changes } };
+    }));
+  };
+
+  const toggleStructure = (enabled: boolean) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      if (enabled) return { ...c, structureRules: { ...DEFAULT_STRUCTURE_RULES, ...c.structureRules } };
+      const { structureRules, ...rest } = c;
+      return rest;
+    }));
+  };
+
+  const updateStructureRules = (changes: Partial<StructureRules>) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, structureRules: { ...DEFAULT_STRUCTURE_RULES, ...c.structureRules, ...changes } };
+    }));
+  };
+
+  const addConditionalRule = () => {
+    const rule = { ...newConditional };
+    if (!rule.ifColumn || !rule.thenColumn || rule.ifColumn === rule.thenColumn) return;
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, conditionalRules: [...(c.conditionalRules || []), rule] };
+    }));
+    setNewConditional({ ...newConditional, ifValue: '', thenValue: '' });
+  };
+
+  const removeConditionalRule = (index: number) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, conditionalRules: (c.conditionalRules || []).filter((_, i) => i !== index) };
+    }));
+  };
+
+  const addCompositionRule = () => {
+    const columns = Array.from(new Set(
+      newCompositionColumns.split(',').map(c => c.trim()).filter(Boolean).map(c => c.endsWith('*') ? c.toUpperCase() : formatHeader(c))
+    ));
+    if (columns.length === 0) return;
+    const rule: CompositionRule = { ...newComposition, columns, acrossRows: newComposition.acrossRows && activeTable?.kind === 'interval' };
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, compositionRules: [...(c.compositionRules || []), rule] };
+    }));
+    setNewCompositionColumns('');
+  };
+
+  const removeCompositionRule = (index: number) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, compositionRules: (c.compositionRules || []).filter((_, i) => i !== index) };
+    }));
+  };
+
+  // Syntax check for the expression being typed (null when valid or empty)
+  const expressionSyntaxError = useMemo(() => {
+    if (!newExpression.expression.trim()) return null;
+    try {
+      parseExpression(newExpression.expression);
+      return null;
+    } catch (e: any) {
+      return e.message as string;
+    }
+  }, [newExpression.expression]);
+
+  const addExpressionRule = () => {
+    if (!newExpression.expression.trim() || expressionSyntaxError) return;
+    const rule: ExpressionRule = {
+      expression: newExpression.expression.trim(),
+      severity: newExpression.severity,
+      ...(newExpression.message?.trim() ? { message: newExpression.message.trim() } : {}),
+    };
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, expressionRules: [...(c.expressionRules || []), rule] };
+    }));
+    setNewExpression({ ...newExpression, expression: '', message: '' });
+  };
+
+  const removeExpressionRule = (index: number) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, expressionRules: (c.expressionRules || []).filter((_, i) => i !== index) };
+    }));
+  };
+
+  const toggleQaqc = (enabled: boolean) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      if (enabled) return { ...c, qaqcRules: { ...DEFAULT_QAQC_RULES, ...c.qaqcRules } };
+      const { qaqcRules, ...rest } = c;
+      return rest;
+    }));
+  };
+
+  const updateQaqcRules = (changes: Partial<QaqcRules>) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, qaqcRules: { ...DEFAULT_QAQC_RULES, ...c.qaqcRules, ...changes } };
+    }));
+  };
+
+  const addQaqcElement = () => {
+    if (!newQaqcElement.column || !(newQaqcElement.detectionLimit > 0)) return;
+    const elements = currentConfig?.qaqcRules?.elements || [];
+    updateQaqcRules({ elements: [...elements.filter(el => el.column !== newQaqcElement.column), newQaqcElement] });
+    setNewQaqcElement({ column: '', detectionLimit: 0 });
+  };
+
+  const removeQaqcElement = (index: number) => {
+    updateQaqcRules({ elements: (currentConfig?.qaqcRules?.elements || []).filter((_, i) => i !== index) });
+  };
+
+  const addUniqueKey = () => {
+    const keyColumns = newKeyColumns.filter(k => currentConfig?.columns.some(c => c.columnName === k));
+    if (keyColumns.length === 0) return;
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      const existing = c.uniqueKeys || [];
+      if (existing.some(k => k.join('+') === keyColumns.join('+'))) return c;
+      return { ...c, uniqueKeys: [...existing, keyColumns] };
+    }));
+    setNewKeyColumns([]);
+  };
+
+  const removeUniqueKey = (index: number) => {
+    setConfigs(configs.map(c => {
+      if (c.tableType !== activeTab) return c;
+      return { ...c, uniqueKeys: (c.uniqueKeys || []).filter((_, i) => i !== index) };
+    }));
+  };
+
+  const updateLookupRule = (colName: string, changes: Partial<LookupRule>) => {
+    const col = currentConfig?.columns.find(c => c.columnName === colName);
+    if (!col?.validation?.lookup) return;
+    const lookup: LookupRule = { ...col.validation.lookup, ...changes };
+    if (!lookup.parentColumn) delete lookup.parentColumn;
+    if (!lookup.dateColumn) delete lookup.dateColumn;
+    updateColumn(colName, { validation: { ...col.validation, lookup } });
+  };
+
   const updateValidationType = (colName: string, type: 'none' | 'range' | 'lookup' | 'key') => {
     const changes: Partial<ColumnConfig> = {};
     changes.validation = {};
@@ -514,11 +1441,25 @@ const ConfigPanel = ({
        changes.validation = { lookup: { libraryId: libraries[0]?.id || '', caseSensitive: false } };
     } else if (type === 'key') {
        changes.type = 'string';
-       changes.validation = { isKeyReference: true };
+       changes.validation = { isKeyReference: true, keyReference: defaultKeyReference(tables) };
     }
     updateColumn(colName, changes);
   };
 
+  const updateKeyReference = (colName: string, changes: Partial<KeyReferenceRule>) => {
+    const col = currentConfig?.columns.find(c => c.columnName === colName);
+    if (!col || !col.validation?.isKeyReference) return;
+
+    const current = col.validation.keyReference || defaultKeyReference(tables);
+    updateColumn(colName, { validation: { ...col.validation, keyReference: { ...current, ...changes } } });
+  };
+
+  // Columns offered as reference targets: configured columns plus those detected in uploaded data
+  const getReferenceColumns = (tableType: string) => {
+    const configured = configs.find(c => c.tableType === tableType)?.columns.map(c => c.columnName) || [];
+    return Array.from(new Set([...configured, ...(availableColumnsMap[tableType] || [])]));
+  };
+
   const updateRangeValue = (colName: string, field: 'min' | 'max', value: string) => {
     const numVal = value === '' ? undefined : parseFloat(value);
     const col = currentConfig?.columns.find(c => c.columnName === colName);
@@ -555,19 +1496,17 @@ const ConfigPanel = ({
     }));
   };
 
-  const allTableTypes = [
-    TableType.COLLAR,
-    TableType.SURVEY,
-    TableType.LITHOLOGY, 
-    TableType.ASSAY, 
-    TableType.MINERALIZATION, 
-    TableType.OXIDATION, 
-    TableType.GEOTECH, 
-    TableType.RQD, 
-    TableType.VEIN,
-    TableType.ALTERATION,
-    TableType.DENSITY
-  ];
+  const allTableTypes = tables.map(t => t.name);
+
+  // Collar and free tables always enforce their key columns as a unique key
+  const builtInKey = activeTable && (activeTable.kind === 'collar' || activeTable.kind === 'free') && activeTable.keyColumns.length > 0
+    ? activeTable.keyColumns
+    : null;
+
+  // Fall back to the first table when the active one is deleted from the registry
+  useEffect(() => {
+    if (!activeTable && tables.length > 0) setActiveTab(tables[0].name);
+  }, [activeTable, tables]);
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-slate-200">
@@ -576,7 +1515,7 @@ const ConfigPanel = ({
         {allTableTypes.map(t => (
           <button
             key={t}
-            onClick={() => setActiveTab(t)}
+            onClick={() => { setActiveTab(t); setNewKeyColumns([]); }}
             className={`pb-3 text-xs font-bold uppercase tracking-wide transition-colors whitespace-nowrap ${
               activeTab === t 
               ? 'border-b-2 border-indigo-600 text-indigo-700' 
@@ -717,19 +1656,82 @@ const ConfigPanel = ({
                               <LucideChevronDown className="h-3 w-3" />
                             </div>
                             <p className="text-[10px] text-slate-400 mt-1.5 ml-0.5">Select the library containing valid codes.</p>
+                            <div className="flex gap-2 mt-2">
+                              <select
+                                className="flex-1 px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                                value={col.validation.lookup.parentColumn || ''}
+                                onChange={(e) => updateLookupRule(col.columnName, { parentColumn: e.target.value || undefined })}
+                                title="Dependent lookup: valid codes are those below this column's code in the library hierarchy"
+                              >
+                                <option value="">Not dependent</option>
+                                {getReferenceColumns(activeTab).filter(c => c !== col.columnName).map(c => (
+                                  <option key={c} value={c}>Child of {c}</option>
+                                ))}
+                              </select>
+                              <select
+                                className="flex-1 px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                                value={col.validation.lookup.dateColumn || ''}
+                                onChange={(e) => updateLookupRule(col.columnName, { dateColumn: e.target.value || undefined })}
+                                title="Row date compared with the codes' validity dates"
+                              >
+                                <option value="">No date check</option>
+                                {getReferenceColumns(activeTab).filter(c => c !== col.columnName).map(c => (
+                                  <option key={c} value={c}>Dated by {c}</option>
+                                ))}
+                              </select>
+                            </div>
                           </div>
                         )}
-                        {col.validation?.isKeyReference && (
-                          <div className="w-full bg-indigo-50 border border-indigo-100 text-indigo-700 px-3 py-2.5 rounded-md text-xs flex items-center gap-2 font-medium">
-                             <LucideCheckCircle className="w-4 h-4 flex-shrink-0" />
-                             Validates existence in Collar
-                          </div>
-                        )}
-                        {!col.validation?.range && !col.validation?.lookup && !col.validation?.isKeyReference && (
+                        {col.validation?.isKeyReference && (() => {
+                          const keyRef = col.validation.keyReference || defaultKeyReference(tables);
+                          const refColumns = getReferenceColumns(keyRef.tableType);
+                          return (
+                            <div className="border border-indigo-100 rounded-md p-3 bg-indigo-50 flex items-center gap-3">
+                              <div className="flex-1">
+                                <label className="text-[10px] text-indigo-700 font-semibold mb-1 block uppercase">Parent Table</label>
+                                <select
+                                  className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                                  value={keyRef.tableType}
+                                  onChange={(e) => {
+                                    const tableType = e.target.value;
+                                    const columns = getReferenceColumns(tableType);
+                                    const columnName = columns.includes(keyRef.columnName) ? keyRef.columnName : (columns[0] || '');
+                                    updateKeyReference(col.columnName, { tableType, columnName });
+                                  }}
+                                >
+                                  {allTableTypes.map(t => (
+                                    <option key={t} value={t}>{t}</option>
+                                  ))}
+                                </select>
+                              </div>
+                              <span className="text-indigo-300 mt-4 font-light text-xl">.</span>
+                              <div className="flex-1">
+                                <label className="text-[10px] text-indigo-700 font-semibold mb-1 block uppercase">Parent Column</label>
+                                <select
+                                  className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                                  value={keyRef.columnName}
+                                  onChange={(e) => updateKeyReference(col.columnName, { columnName: e.target.value })}
+                                >
+                                  {refColumns.length === 0 && <option value="">No columns available</option>}
+                                  {refColumns.map(c => (
+                                    <option key={c} value={c}>{c}</option>
+                                  ))}
+                                </select>
+                              </div>
+                            </div>
+                          );
+                        })()}
+                        {!col.validation?.range && !col.validation?.lookup && !col.validation?.isKeyReference && !col.specialValues && (
                           <div className="text-slate-300 text-xs italic py-2">
                             No additional rules needed.
                           </div>
                         )}
+                        {col.type !== 'string' && (
+                          <SpecialValuesEditor
+                            rule={col.specialValues}
+                            onChange={(rule) => updateColumn(col.columnName, { specialValues: rule })}
+                          />
+                        )}
                       </td>
                       
                       {/* Delete Action */}
@@ -745,6 +1747,959 @@ const ConfigPanel = ({
             </div>
           </div>
 
+          {/* Survey Rules Section */}
+          {activeTable?.kind === 'survey' && (() => {
+            const surveyRules = { ...DEFAULT_SURVEY_RULES, ...currentConfig.surveyRules };
+            return (
+              <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+                <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+                  <LucideActivity className="w-4 h-4 text-indigo-600" /> Survey Logic Rules
+                </h4>
+                <div className="flex flex-wrap gap-10 items-end">
+                  <div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Max Dogleg Severity (°/30m)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      className="w-40 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                      value={surveyRules.maxDoglegPer30m}
+                      onChange={(e) => updateSurveyRules({ maxDoglegPer30m: e.target.value === '' ? DEFAULT_SURVEY_RULES.maxDoglegPer30m : parseFloat(e.target.value) })}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                      checked={surveyRules.requireCollarStation}
+                      onChange={(e) => updateSurveyRules({ requireCollarStation: e.target.checked })}
+                    />
+                    Require collar (0 m) station
+                  </label>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-3">
+                  Stations are grouped by SITE_ID and sorted by DEPTH. Duplicate stations are always reported.
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* Point Rules Section */}
+          {activeTable?.kind === 'point' && (() => {
+            const pointRules = { ...DEFAULT_POINT_RULES, ...currentConfig.pointRules };
+            return (
+              <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+                <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+                  <LucideActivity className="w-4 h-4 text-indigo-600" /> Point Logic Rules
+                </h4>
+                <div className="flex flex-wrap gap-10 items-end">
+                  <div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Min Spacing (m)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      className="w-40 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                      value={pointRules.minSpacing}
+                      onChange={(e) => updatePointRules({ minSpacing: e.target.value === '' ? DEFAULT_POINT_RULES.minSpacing : parseFloat(e.target.value) })}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                      checked={pointRules.allowDuplicateDepths}
+                      onChange={(e) => updatePointRules({ allowDuplicateDepths: e.target.checked })}
+                    />
+                    Allow several readings at the same depth
+                  </label>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-3">
+                  Readings are grouped by SITE_ID and sorted by DEPTH. Depths below 0 or beyond Collar END_DEPTH are always reported. Set spacing to 0 to disable.
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* Interval Rules Section */}
+          {activeTable?.kind === 'interval' && (() => {
+            const intervalRules = { ...DEFAULT_INTERVAL_RULES, ...currentConfig.intervalRules };
+            return (
+              <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+                <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+                  <LucideActivity className="w-4 h-4 text-indigo-600" /> Interval Logic Rules
+                </h4>
+                <div className="flex flex-wrap gap-10 items-end mb-6">
+                  <div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Gap Tolerance (m)</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                        value={intervalRules.gapTolerance}
+                        disabled={intervalRules.allowGaps}
+                        onChange={(e) => updateIntervalRules({ gapTolerance: e.target.value === '' ? DEFAULT_INTERVAL_RULES.gapTolerance : parseFloat(e.target.value) })}
+                      />
+                      <select
+                        className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                        value={intervalRules.gapSeverity}
+                        disabled={intervalRules.allowGaps}
+                        onChange={(e) => updateIntervalRules({ gapSeverity: e.target.value as ValidationSeverity })}
+                      >
+                        <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                        <option value={ValidationSeverity.WARNING}>Warning</option>
+                        <option value={ValidationSeverity.INFO}>Info</option>
+                      </select>
+                      <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                          checked={intervalRules.allowGaps}
+                          onChange={(e) => updateIntervalRules({ allowGaps: e.target.checked })}
+                        />
+                        Gaps allowed (sparse table)
+                      </label>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Overlap Tolerance (m)</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                        value={intervalRules.overlapTolerance}
+                        disabled={intervalRules.allowOverlaps}
+                        onChange={(e) => updateIntervalRules({ overlapTolerance: e.target.value === '' ? DEFAULT_INTERVAL_RULES.overlapTolerance : parseFloat(e.target.value) })}
+                      />
+                      <select
+                        className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                        value={intervalRules.overlapSeverity}
+                        disabled={intervalRules.allowOverlaps}
+                        onChange={(e) => updateIntervalRules({ overlapSeverity: e.target.value as ValidationSeverity })}
+                      >
+                        <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                        <option value={ValidationSeverity.WARNING}>Warning</option>
+                        <option value={ValidationSeverity.INFO}>Info</option>
+                      </select>
+                      <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                          checked={intervalRules.allowOverlaps}
+                          onChange={(e) => updateIntervalRules({ allowOverlaps: e.target.checked })}
+                        />
+                        Overlaps allowed
+                      </label>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">EOH Tolerance (m)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                      value={intervalRules.eohTolerance}
+                      onChange={(e) => updateIntervalRules({ eohTolerance: e.target.value === '' ? DEFAULT_INTERVAL_RULES.eohTolerance : parseFloat(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Snap Fix Up To (m)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                      value={intervalRules.snapTolerance}
+                      onChange={(e) => updateIntervalRules({ snapTolerance: e.target.value === '' ? DEFAULT_INTERVAL_RULES.snapTolerance : parseFloat(e.target.value) })}
+                      title="Reported gaps and overlaps up to this size get an auto-fix that moves DEPTH_FROM onto the previous DEPTH_TO"
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-10 items-end">
+                  <div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Min Length (m)</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                        value={intervalRules.minLength}
+                        onChange={(e) => updateIntervalRules({ minLength: e.target.value === '' ? DEFAULT_INTERVAL_RULES.minLength : parseFloat(e.target.value) })}
+                      />
+                      <select
+                        className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                        value={intervalRules.minLengthSeverity}
+                        onChange={(e) => updateIntervalRules({ minLengthSeverity: e.target.value as ValidationSeverity })}
+                      >
+                        <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                        <option value={ValidationSeverity.WARNING}>Warning</option>
+                        <option value={ValidationSeverity.INFO}>Info</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Max Length (m)</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                        value={intervalRules.maxLength}
+                        onChange={(e) => updateIntervalRules({ maxLength: e.target.value === '' ? DEFAULT_INTERVAL_RULES.maxLength : parseFloat(e.target.value) })}
+                      />
+                      <select
+                        className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                        value={intervalRules.maxLengthSeverity}
+                        onChange={(e) => updateIntervalRules({ maxLengthSeverity: e.target.value as ValidationSeverity })}
+                      >
+                        <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                        <option value={ValidationSeverity.WARNING}>Warning</option>
+                        <option value={ValidationSeverity.INFO}>Info</option>
+                      </select>
+                    </div>
+                  </div>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-3">
+                  Intervals are grouped by SITE_ID and sorted by DEPTH_FROM. Gaps and overlaps within the tolerance are ignored; sparse tables such as VEIN allow gaps and skip bottom-of-hole coverage. Intervals outside the length limits are reported with the length found, e.g. assay samples 0.3–2.0 m. Set a length to 0 to disable.
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* Cross-Table Rules Section */}
+          {activeTable?.kind === 'interval' && (
+            <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+              <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+                <LucideLayers className="w-4 h-4 text-indigo-600" /> Cross-Table Rules
+              </h4>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {(currentConfig.crossTableRules || []).map((rule, idx) => (
+                  <span key={`${rule.type}-${rule.targetTable}`} className="text-xs px-2 py-1 rounded border bg-indigo-50 text-indigo-700 border-indigo-100 flex items-center gap-1">
+                    {CROSS_TABLE_RULE_LABELS[rule.type]} <span className="font-mono font-semibold">{rule.targetTable}</span>
+                    <span className={`text-[10px] font-bold ml-1 ${rule.severity === ValidationSeverity.CRITICAL ? 'text-red-600' : 'text-amber-600'}`}>{rule.severity}</span>
+                    <button onClick={() => removeCrossTableRule(idx)} className="text-indigo-300 hover:text-red-500">
+                      <LucideX className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                {(currentConfig.crossTableRules || []).length === 0 && (
+                  <span className="text-slate-300 text-xs italic">No cross-table rules defined.</span>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                  value={newCrossRule.type}
+                  onChange={(e) => setNewCrossRule({ ...newCrossRule, type: e.target.value as CrossTableRuleType })}
+                >
+                  {(Object.keys(CROSS_TABLE_RULE_LABELS) as CrossTableRuleType[]).map(type => (
+                    <option key={type} value={type}>{CROSS_TABLE_RULE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <select
+                  className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                  value={crossTargets.includes(newCrossRule.targetTable) ? newCrossRule.targetTable : (crossTargets[0] || '')}
+                  onChange={(e) => setNewCrossRule({ ...newCrossRule, targetTable: e.target.value })}
+                >
+                  {crossTargets.length === 0 && <option value="">No other interval tables</option>}
+                  {crossTargets.map(t => (
+                    <option key={t} value={t}>{t}</option>
+                  ))}
+                </select>
+                <select
+                  className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                  value={newCrossRule.severity}
+                  onChange={(e) => setNewCrossRule({ ...newCrossRule, severity: e.target.value as ValidationSeverity })}
+                >
+                  <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                  <option value={ValidationSeverity.WARNING}>Warning</option>
+                </select>
+                <button
+                  onClick={addCrossTableRule}
+                  disabled={crossTargets.length === 0}
+                  className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-all uppercase tracking-wide"
+                >
+                  Add Rule
+                </button>
+              </div>
+              <p className="text-[10px] text-slate-400 mt-3">
+                Intervals are compared per SITE_ID. e.g. ASSAY covered by LITHOLOGY, ASSAY must not cross contacts of LITHOLOGY, OXIDATION same depth span as GEOTECH.
+              </p>
+            </div>
+          )}
+
+          {/* Geotechnical Consistency Section */}
+          {activeTable?.kind === 'interval' && (() => {
+            const geotech = currentConfig.geotechRules;
+            const columnFields: { key: 'rqdColumn' | 'recoveryColumn' | 'fractureColumn', label: string }[] = [
+              { key: 'rqdColumn', label: 'RQD Column (%)' },
+              { key: 'recoveryColumn', label: 'Recovery Column' },
+              { key: 'fractureColumn', label: 'Fracture Freq. Column (/m)' },
+            ];
+            const checks: { key: 'checkRqdWithinRecovery' | 'checkRecoveryRange' | 'checkRqdVsFracture' | 'checkRunAlignment', label: string }[] = [
+              { key: 'checkRqdWithinRecovery', label: 'RQD ≤ recovery' },
+              { key: 'checkRecoveryRange', label: 'Recovery within 0–100% / run length' },
+              { key: 'checkRqdVsFracture', label: 'RQD consistent with fracture frequency' },
+              { key: 'checkRunAlignment', label: 'Runs line up with paired table' },
+            ];
+            return (
+              <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                    <LucideActivity className="w-4 h-4 text-indigo-600" /> Geotechnical Consistency
+                  </h4>
+                  <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                      checked={!!geotech}
+                      onChange={(e) => toggleGeotech(e.target.checked)}
+                    />
+                    Enabled
+                  </label>
+                </div>
+                {geotech ? (
+                  <>
+                    <div className="flex flex-wrap gap-x-6 gap-y-2 mb-4">
+                      {checks.map(({ key, label }) => (
+                        <label key={key} className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                            checked={geotech[key]}
+                            onChange={(e) => updateGeotechRules({ [key]: e.target.checked })}
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-6 items-end mb-4">
+                      <div>
+                        <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Paired Table</label>
+                        <select
+                          className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                          value={geotech.pairedTable}
+                          onChange={(e) => updateGeotechRules({ pairedTable: e.target.value })}
+                        >
+                          <option value="">None (own columns only)</option>
+                          {crossTargets.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                      </div>
+                      {columnFields.map(({ key, label }) => (
+                        <div key={key}>
+                          <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">{label}</label>
+                          <input
+                            type="text"
+                            className="w-40 px-2 py-1.5 border border-slate-200 rounded text-xs font-mono bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                            value={geotech[key]}
+                            onChange={(e) => updateGeotechRules({ [key]: formatHeader(e.target.value) })}
+                          />
+                        </div>
+                      ))}
+                      <div>
+                        <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Recovery Unit</label>
+                        <select
+                          className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                          value={geotech.recoveryUnit}
+                          onChange={(e) => updateGeotechRules({ recoveryUnit: e.target.value as GeotechRules['recoveryUnit'] })}
+                        >
+                          <option value="percent">Percent</option>
+                          <option value="metres">Metres</option>
+                        </select>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-10 items-end">
+                      <div>
+                        <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">RQD vs FF Tolerance (%)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={5}
+                          className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                          value={geotech.fractureTolerance}
+                          onChange={(e) => updateGeotechRules({ fractureTolerance: e.target.value === '' ? DEFAULT_GEOTECH_RULES.fractureTolerance : parseFloat(e.target.value) })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Run Alignment Tolerance (m)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                          value={geotech.alignmentTolerance}
+                          onChange={(e) => updateGeotechRules({ alignmentTolerance: e.target.value === '' ? DEFAULT_GEOTECH_RULES.alignmentTolerance : parseFloat(e.target.value) })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Severity</label>
+                        <select
+                          className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                          value={geotech.severity}
+                          onChange={(e) => updateGeotechRules({ severity: e.target.value as ValidationSeverity })}
+                        >
+                          <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                          <option value={ValidationSeverity.WARNING}>Warning</option>
+                          <option value={ValidationSeverity.INFO}>Info</option>
+                        </select>
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <span className="text-slate-300 text-xs italic">Geotechnical checks are off for this table.</span>
+                )}
+                <p className="text-[10px] text-slate-400 mt-3">
+                  Columns missing from this table are read from the paired table's run with the same depths, e.g. RECOVERY on GEOTECH with RQD_PERCENT and FRACTURE_FREQUENCY on RQD. Fracture frequency is compared with RQD using Priest &amp; Hudson's estimate. Enable the checks on one table of a pair only. Findings are reported as LOGIC.
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* Structural Measurements Section */}
+          {(activeTable?.kind === 'interval' || activeTable?.kind === 'point') && (() => {
+            const structure = currentConfig.structureRules;
+            return (
+              <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                    <LucideActivity className="w-4 h-4 text-indigo-600" /> Structural Measurements (Alpha/Beta)
+                  </h4>
+                  <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                      checked={!!structure}
+                      onChange={(e) => toggleStructure(e.target.checked)}
+                    />
+                    Enabled
+                  </label>
+                </div>
+                {structure ? (
+                  <div className="flex flex-wrap gap-6 items-end">
+                    <div>
+                      <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Alpha Column</label>
+                      <input
+                        type="text"
+                        className="w-40 px-2 py-1.5 border border-slate-200 rounded text-xs font-mono bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                        value={structure.alphaColumn}
+                        onChange={(e) => updateStructureRules({ alphaColumn: formatHeader(e.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Beta Column</label>
+                      <input
+                        type="text"
+                        className="w-40 px-2 py-1.5 border border-slate-200 rounded text-xs font-mono bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                        value={structure.betaColumn}
+                        onChange={(e) => updateStructureRules({ betaColumn: formatHeader(e.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Max Distance to Survey Station (m)</label>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                          value={structure.maxStationDistance}
+                          onChange={(e) => updateStructureRules({ maxStationDistance: e.target.value === '' ? DEFAULT_STRUCTURE_RULES.maxStationDistance : parseFloat(e.target.value) })}
+                        />
+                        <select
+                          className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                          value={structure.severity}
+                          onChange={(e) => updateStructureRules({ severity: e.target.value as ValidationSeverity })}
+                        >
+                          <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                          <option value={ValidationSeverity.WARNING}>Warning</option>
+                          <option value={ValidationSeverity.INFO}>Info</option>
+                        </select>
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                        checked={structure.convertOrientation}
+                        onChange={(e) => updateStructureRules({ convertOrientation: e.target.checked })}
+                      />
+                      Add true dip / dip direction to Export XYZ
+                    </label>
+                  </div>
+                ) : (
+                  <span className="text-slate-300 text-xs italic">Alpha/beta checks are off for this table.</span>
+                )}
+                <p className="text-[10px] text-slate-400 mt-3">
+                  Alpha must lie within 0–90° and beta within 0–360° (measured clockwise looking down-hole from the top-of-core line to the bottom of the ellipse). Measurements in holes without survey, or further than the set distance from a survey station, are flagged because their orientation relies on the hole direction. Set the distance to 0 to disable. Near-vertical holes have no top-of-core reference and are left out of the conversion.
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* Unique Keys Section */}
+          <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+            <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <LucideDatabase className="w-4 h-4 text-indigo-600" /> Unique Keys
+            </h4>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {builtInKey && !(currentConfig.uniqueKeys || []).some(k => k.join('+') === builtInKey.join('+')) && (
+                <span className="text-xs font-mono px-2 py-1 rounded border bg-slate-50 text-slate-500 border-slate-200" title="Always enforced">
+                  {builtInKey.join(' + ')} (built-in)
+                </span>
+              )}
+              {(currentConfig.uniqueKeys || []).map((key, idx) => (
+                <span key={key.join('+')} className="text-xs font-mono px-2 py-1 rounded border bg-indigo-50 text-indigo-700 border-indigo-100 flex items-center gap-1">
+                  {key.join(' + ')}
+                  <button onClick={() => removeUniqueKey(idx)} className="text-indigo-300 hover:text-red-500">
+                    <LucideX className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              {!builtInKey && (currentConfig.uniqueKeys || []).length === 0 && (
+                <span className="text-slate-300 text-xs italic">No unique keys defined.</span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              {currentConfig.columns.map(col => (
+                <label key={col.columnName} className="flex items-center gap-1.5 text-xs text-slate-600 font-mono cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="w-3.5 h-3.5 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                    checked={newKeyColumns.includes(col.columnName)}
+                    onChange={(e) => setNewKeyColumns(e.target.checked
+                      ? [...newKeyColumns, col.columnName]
+                      : newKeyColumns.filter(k => k !== col.columnName))}
+                  />
+                  {col.columnName}
+                </label>
+              ))}
+              <button
+                onClick={addUniqueKey}
+                disabled={newKeyColumns.length === 0}
+                className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-all uppercase tracking-wide"
+              >
+                Add Key
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-400 mt-3">
+              Tick one or more columns to form a composite key (e.g. SITE_ID + DEPTH_FROM). Every duplicate is reported with all of its row IDs.
+            </p>
+          </div>
+
+          {/* Conditional Rules Section */}
+          <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+            <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <LucideActivity className="w-4 h-4 text-indigo-600" /> Conditional Rules
+            </h4>
+            <div className="flex flex-col gap-2 mb-4">
+              {(currentConfig.conditionalRules || []).map((rule, idx) => (
+                <div key={idx} className="text-xs px-3 py-2 rounded border bg-indigo-50 text-indigo-700 border-indigo-100 flex items-center justify-between gap-2">
+                  <span className="font-mono">{describeConditionalRule(rule)}</span>
+                  <span className="flex items-center gap-2">
+                    {rule.requirement !== 'not_required' && (
+                      <span className={`text-[10px] font-bold ${rule.severity === ValidationSeverity.CRITICAL ? 'text-red-600' : 'text-amber-600'}`}>{rule.severity}</span>
+                    )}
+                    <button onClick={() => removeConditionalRule(idx)} className="text-indigo-300 hover:text-red-500">
+                      <LucideX className="w-3 h-3" />
+                    </button>
+                  </span>
+                </div>
+              ))}
+              {(currentConfig.conditionalRules || []).length === 0 && (
+                <span className="text-slate-300 text-xs italic">No conditional rules defined.</span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">If</span>
+              <select
+                className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                value={newConditional.ifColumn}
+                onChange={(e) => setNewConditional({ ...newConditional, ifColumn: e.target.value })}
+              >
+                <option value="">Column...</option>
+                {getReferenceColumns(activeTab).map(col => (
+                  <option key={col} value={col}>{col}</option>
+                ))}
+              </select>
+              <select
+                className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                value={newConditional.operator}
+                onChange={(e) => setNewConditional({ ...newConditional, operator: e.target.value as ConditionOperator })}
+              >
+                {(Object.keys(CONDITION_OPERATOR_LABELS) as ConditionOperator[]).map(op => (
+                  <option key={op} value={op}>{CONDITION_OPERATOR_LABELS[op]}</option>
+                ))}
+              </select>
+              {(newConditional.operator === 'equals' || newConditional.operator === 'not_equals' || newConditional.operator === 'one_of') && (
+                <input
+                  type="text"
+                  className="w-28 px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                  placeholder={newConditional.operator === 'one_of' ? 'QZV, QZ' : 'Value'}
+                  value={newConditional.ifValue || ''}
+                  onChange={(e) => setNewConditional({ ...newConditional, ifValue: e.target.value })}
+                />
+              )}
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Then</span>
+              <select
+                className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                value={newConditional.thenColumn}
+                onChange={(e) => setNewConditional({ ...newConditional, thenColumn: e.target.value })}
+              >
+                <option value="">Column...</option>
+                {getReferenceColumns(activeTab).map(col => (
+                  <option key={col} value={col}>{col}</option>
+                ))}
+              </select>
+              <select
+                className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                value={newConditional.requirement}
+                onChange={(e) => setNewConditional({ ...newConditional, requirement: e.target.value as ConditionRequirement })}
+              >
+                {(Object.keys(CONDITION_REQUIREMENT_LABELS) as ConditionRequirement[]).map(req => (
+                  <option key={req} value={req}>{CONDITION_REQUIREMENT_LABELS[req]}</option>
+                ))}
+              </select>
+              {newConditional.requirement === 'one_of' && (
+                <input
+                  type="text"
+                  className="w-28 px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                  placeholder="VN, STK"
+                  value={newConditional.thenValue || ''}
+                  onChange={(e) => setNewConditional({ ...newConditional, thenValue: e.target.value })}
+                />
+              )}
+              {newConditional.requirement !== 'not_required' && (
+                <select
+                  className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                  value={newConditional.severity}
+                  onChange={(e) => setNewConditional({ ...newConditional, severity: e.target.value as ValidationSeverity })}
+                >
+                  <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                  <option value={ValidationSeverity.WARNING}>Warning</option>
+                </select>
+              )}
+              <button
+                onClick={addConditionalRule}
+                disabled={!newConditional.ifColumn || !newConditional.thenColumn || newConditional.ifColumn === newConditional.thenColumn}
+                className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-all uppercase tracking-wide"
+              >
+                Add Rule
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-400 mt-3">
+              Row-level rules between columns, reported as LOGIC errors. e.g. if LITH_CODE = QZV then VEIN_TYPE is mandatory; if DRILL_TYPE = RC then RECOVERY is not required (waives its mandatory check).
+            </p>
+          </div>
+
+          {/* Composition Rules Section */}
+          {(activeTable?.kind === 'interval' || activeTable?.kind === 'free') && (
+          <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+            <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <LucideActivity className="w-4 h-4 text-indigo-600" /> Composition Rules (Percentage Sums)
+            </h4>
+            <div className="flex flex-col gap-2 mb-4">
+              {(currentConfig.compositionRules || []).map((rule, idx) => (
+                <div key={idx} className="text-xs px-3 py-2 rounded border bg-indigo-50 text-indigo-700 border-indigo-100 flex items-center justify-between gap-2">
+                  <span>
+                    <span className="font-mono">{rule.columns.join(' + ')}</span>
+                    {' '}{COMPOSITION_MODE_LABELS[rule.mode]}
+                    {rule.tolerance > 0 && ` (±${rule.tolerance})`}
+                    {rule.acrossRows && activeTable?.kind === 'interval' && <span className="text-indigo-400"> · summed across rows of the same interval</span>}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className={`text-[10px] font-bold ${rule.severity === ValidationSeverity.CRITICAL ? 'text-red-600' : 'text-amber-600'}`}>{rule.severity}</span>
+                    <button onClick={() => removeCompositionRule(idx)} className="text-indigo-300 hover:text-red-500">
+                      <LucideX className="w-3 h-3" />
+                    </button>
+                  </span>
+                </div>
+              ))}
+              {(currentConfig.compositionRules || []).length === 0 && (
+                <span className="text-slate-300 text-xs italic">No composition rules defined.</span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                className="flex-1 min-w-[200px] px-2 py-1.5 border border-slate-200 rounded text-xs font-mono bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                placeholder="Columns, e.g. PERCENTAGE or PCT_*, QZ_PCT"
+                value={newCompositionColumns}
+                onChange={(e) => setNewCompositionColumns(e.target.value)}
+              />
+              <select
+                className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                value={newComposition.mode}
+                onChange={(e) => setNewComposition({ ...newComposition, mode: e.target.value as CompositionMode })}
+              >
+                {(Object.keys(COMPOSITION_MODE_LABELS) as CompositionMode[]).map(mode => (
+                  <option key={mode} value={mode}>{COMPOSITION_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                className="w-20 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                title="Tolerance (percentage points)"
+                value={newComposition.tolerance}
+                onChange={(e) => setNewComposition({ ...newComposition, tolerance: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+              />
+              {activeTable?.kind === 'interval' && (
+                <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                    checked={newComposition.acrossRows}
+                    onChange={(e) => setNewComposition({ ...newComposition, acrossRows: e.target.checked })}
+                  />
+                  Sum across rows
+                </label>
+              )}
+              <select
+                className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                value={newComposition.severity}
+                onChange={(e) => setNewComposition({ ...newComposition, severity: e.target.value as ValidationSeverity })}
+              >
+                <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                <option value={ValidationSeverity.WARNING}>Warning</option>
+              </select>
+              <button
+                onClick={addCompositionRule}
+                disabled={!newCompositionColumns.trim()}
+                className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-all uppercase tracking-wide"
+              >
+                Add Rule
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-400 mt-3">
+              The listed columns are summed per row; PREFIX_* uses every column with the prefix. With "Sum across rows", rows logging the same SITE_ID, DEPTH_FROM and DEPTH_TO (e.g. one mineral per row) are summed together; allow overlaps in the interval rules for such tables. Blank cells are ignored.
+            </p>
+          </div>
+          )}
+
+          {/* Expression Rules Section */}
+          <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+            <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <LucideActivity className="w-4 h-4 text-indigo-600" /> Expression Rules
+            </h4>
+            <div className="flex flex-col gap-2 mb-4">
+              {(currentConfig.expressionRules || []).map((rule, idx) => (
+                <div key={idx} className="text-xs px-3 py-2 rounded border bg-indigo-50 text-indigo-700 border-indigo-100 flex items-center justify-between gap-2">
+                  <span className="flex flex-col">
+                    <span className="font-mono">{rule.expression}</span>
+                    {rule.message && <span className="text-[10px] text-indigo-400">{rule.message}</span>}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className={`text-[10px] font-bold ${rule.severity === ValidationSeverity.CRITICAL ? 'text-red-600' : 'text-amber-600'}`}>{rule.severity}</span>
+                    <button onClick={() => removeExpressionRule(idx)} className="text-indigo-300 hover:text-red-500">
+                      <LucideX className="w-3 h-3" />
+                    </button>
+                  </span>
+                </div>
+              ))}
+              {(currentConfig.expressionRules || []).length === 0 && (
+                <span className="text-slate-300 text-xs italic">No expression rules defined.</span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                className={`flex-1 min-w-[220px] px-2 py-1.5 border rounded text-xs font-mono bg-white text-slate-700 outline-none focus:ring-1 ${expressionSyntaxError ? 'border-red-300 focus:ring-red-500' : 'border-slate-200 focus:ring-indigo-500'}`}
+                placeholder="DEPTH_TO - DEPTH_FROM <= 2.0"
+                value={newExpression.expression}
+                onChange={(e) => setNewExpression({ ...newExpression, expression: e.target.value })}
+              />
+              <input
+                type="text"
+                className="flex-1 min-w-[180px] px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                placeholder="Message (optional), e.g. Sample {SAMPLE_ID} longer than 2 m"
+                value={newExpression.message || ''}
+                onChange={(e) => setNewExpression({ ...newExpression, message: e.target.value })}
+              />
+              <select
+                className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                value={newExpression.severity}
+                onChange={(e) => setNewExpression({ ...newExpression, severity: e.target.value as ValidationSeverity })}
+              >
+                <option value={ValidationSeverity.CRITICAL}>Critical</option>
+                <option value={ValidationSeverity.WARNING}>Warning</option>
+              </select>
+              <button
+                onClick={addExpressionRule}
+                disabled={!newExpression.expression.trim() || !!expressionSyntaxError}
+                className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-all uppercase tracking-wide"
+              >
+                Add Rule
+              </button>
+            </div>
+            {expressionSyntaxError && (
+              <p className="text-[10px] text-red-500 mt-2">{expressionSyntaxError}</p>
+            )}
+            <p className="text-[10px] text-slate-400 mt-3">
+              A row fails when the expression is false. Operators: and, or, not, = != &lt; &lt;= &gt; &gt;=, + - * /. Functions: {EXPRESSION_FUNCTIONS.join(', ')}. PREFIX_* inside a function uses every matching column, e.g. SUM(PCT_*) &lt;= 100. {'{COLUMN}'} in the message inserts the row's value.
+            </p>
+          </div>
+
+          {/* QAQC Section */}
+          {(activeTable?.kind === 'interval' || activeTable?.kind === 'free') && (() => {
+            const qaqc = currentConfig.qaqcRules;
+            const columnFields: { key: keyof QaqcRules, label: string }[] = [
+              { key: 'sampleTypeColumn', label: 'Sample Type Column' },
+              { key: 'standardColumn', label: 'Standard ID Column' },
+              { key: 'sampleIdColumn', label: 'Sample ID Column' },
+              { key: 'parentColumn', label: 'Duplicate Parent Column' },
+              { key: 'batchColumn', label: 'Batch Column' },
+            ];
+            const typeFields: { key: keyof QaqcRules, label: string }[] = [
+              { key: 'standardTypes', label: 'Standard Types' },
+              { key: 'blankTypes', label: 'Blank Types' },
+              { key: 'duplicateTypes', label: 'Duplicate Types' },
+            ];
+            return (
+              <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                    <LucideActivity className="w-4 h-4 text-indigo-600" /> QAQC (Standards, Blanks, Duplicates)
+                  </h4>
+                  <label className="flex items-center gap-2 text-xs text-slate-700 font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                      checked={!!qaqc}
+                      onChange={(e) => toggleQaqc(e.target.checked)}
+                    />
+                    Enabled
+                  </label>
+                </div>
+                {qaqc ? (
+                  <>
+                    <datalist id="qaqc-columns">
+                      {getReferenceColumns(activeTab).map(col => <option key={col} value={col} />)}
+                    </datalist>
+                    <div className="flex flex-wrap gap-6 items-end mb-4">
+                      {columnFields.map(({ key, label }) => (
+                        <div key={key}>
+                          <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">{label}</label>
+                          <input
+                            type="text"
+                            list="qaqc-columns"
+                            className="w-40 px-2 py-1.5 border border-slate-200 rounded text-xs font-mono bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                            value={qaqc[key] as string}
+                            onChange={(e) => updateQaqcRules({ [key]: formatHeader(e.target.value) })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-6 items-end mb-4">
+                      {typeFields.map(({ key, label }) => (
+                        <div key={key}>
+                          <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">{label}</label>
+                          <input
+                            type="text"
+                            className="w-40 px-2 py-1.5 border border-slate-200 rounded text-xs font-mono bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                            placeholder="Comma-separated"
+                            value={qaqc[key] as string}
+                            onChange={(e) => updateQaqcRules({ [key]: e.target.value.toUpperCase() })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-10 items-end mb-6">
+                      <div>
+                        <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Blank Limit (x DL)</label>
+                        <input
+                          type="number"
+                          min={1}
+                          step={1}
+                          className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                          value={qaqc.blankMultiple}
+                          onChange={(e) => updateQaqcRules({ blankMultiple: e.target.value === '' ? DEFAULT_QAQC_RULES.blankMultiple : parseFloat(e.target.value) })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Max Duplicate RPD (%)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                          value={qaqc.maxDuplicateRPD}
+                          onChange={(e) => updateQaqcRules({ maxDuplicateRPD: e.target.value === '' ? DEFAULT_QAQC_RULES.maxDuplicateRPD : parseFloat(e.target.value) })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] text-slate-500 font-semibold mb-1 block uppercase">Min Insertion Rate (%)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                          value={qaqc.minInsertionRate}
+                          onChange={(e) => updateQaqcRules({ minInsertionRate: e.target.value === '' ? DEFAULT_QAQC_RULES.minInsertionRate : parseFloat(e.target.value) })}
+                        />
+                      </div>
+                    </div>
+                    <label className="text-[10px] text-slate-500 font-semibold mb-2 block uppercase">Elements Checked on Blanks & Duplicates</label>
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {qaqc.elements.map((el, idx) => (
+                        <span key={el.column} className="text-xs px-2 py-1 rounded border bg-indigo-50 text-indigo-700 border-indigo-100 flex items-center gap-2">
+                          <span className="font-mono">{el.column}</span>
+                          <span className="text-[10px] text-indigo-400">DL {el.detectionLimit}</span>
+                          <button onClick={() => removeQaqcElement(idx)} className="text-indigo-300 hover:text-red-500">
+                            <LucideX className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                      {qaqc.elements.length === 0 && (
+                        <span className="text-slate-300 text-xs italic">No elements selected; only standards are checked.</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500 cursor-pointer"
+                        value={newQaqcElement.column}
+                        onChange={(e) => setNewQaqcElement({ ...newQaqcElement, column: e.target.value })}
+                      >
+                        <option value="">-- Column --</option>
+                        {getReferenceColumns(activeTab).filter(col => !qaqc.elements.some(el => el.column === col)).map(col => (
+                          <option key={col} value={col}>{col}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        className="w-28 px-2 py-1.5 bg-slate-800 text-white rounded text-xs focus:ring-1 focus:ring-indigo-500 outline-none"
+                        placeholder="Detection limit"
+                        value={newQaqcElement.detectionLimit || ''}
+                        onChange={(e) => setNewQaqcElement({ ...newQaqcElement, detectionLimit: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+                      />
+                      <button
+                        onClick={addQaqcElement}
+                        disabled={!newQaqcElement.column || !(newQaqcElement.detectionLimit > 0)}
+                        className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-all uppercase tracking-wide"
+                      >
+                        Add Element
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <span className="text-slate-300 text-xs italic">QAQC checks are off for this table.</span>
+                )}
+                <p className="text-[10px] text-slate-400 mt-3">
+                  Control samples are identified by the sample type column. Standards are compared with their certified values in Reference Materials (beyond ±2SD warns, ±3SD is critical); blanks fail above the limit times the detection limit; duplicates are paired with their original sample through the parent column and fail above the RPD limit (pairs averaging under 10x DL are skipped). The QC insertion rate is reported per batch.
+                </p>
+              </div>
+            );
+          })()}
+
           {/* Add Column Section */}
           <div className="bg-slate-50 p-6 rounded-lg border border-slate-200 shadow-sm">
              <h4 className="text-sm font-bold text-slate-800 mb-6 flex items-center gap-2">
@@ -822,19 +2777,103 @@ const ConfigPanel = ({
   );
 };
 
+// Grid cell that turns into an input on click; commits on Enter/blur, Escape cancels
+const EditableCell = ({ value, onCommit }: { value: any, onCommit: (value: any) => void }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const display = value !== undefined && value !== null ? String(value) : '';
+
+  const commit = () => {
+    if (draft !== null && draft !== display) {
+      // Keep numbers numeric when the cell held a number
+      const trimmed = draft.trim();
+      onCommit(typeof value === 'number' && trimmed !== '' && Number.isFinite(Number(trimmed)) ? Number(trimmed) : draft);
+    }
+    setDraft(null);
+  };
+
+  if (draft === null) {
+    return (
+      <div onClick={() => setDraft(display)} className="cursor-text min-h-[1.25rem]" title="Click to edit">
+        {value !== undefined && value !== null ? display : <span className="text-slate-300 italic">null</span>}
+      </div>
+    );
+  }
+
+  return (
+    <input
+      autoFocus
+      type="text"
+      className="w-full min-w-[80px] px-1 py-0.5 border border-indigo-300 rounded text-sm text-slate-800 outline-none focus:ring-1 focus:ring-indigo-500"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+};
+
 const DataImportCard = ({
   title,
   data,
-  setData,
-  requiredColumns
+  onEdit,
+  onImport,
+  headerMapping,
+  requiredColumns,
+  errors,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo
 }: {
   title: string,
   data: any[],
-  setData: (data: any[]) => void,
-  requiredColumns: string[]
+  onEdit: (rows: any[], label: string) => void,
+  onImport: (rawRows: any[]) => void,
+  headerMapping: HeaderMapping[],
+  requiredColumns: string[],
+  errors: ValidationError[],
+  undoLabel?: string,
+  redoLabel?: string,
+  onUndo: () => void,
+  onRedo: () => void
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showMapping, setShowMapping] = useState(false);
+
+  // Findings of the last validation per row, kept current while editing
+  const rowIssues = useMemo(() => {
+    const map = new Map<string, ValidationError[]>();
+    errors.forEach(err => {
+      err.rowId.split(',').map(id => id.trim()).filter(id => id && id !== 'HEADER').forEach(id => {
+        map.set(id, [...(map.get(id) || []), err]);
+      });
+    });
+    return map;
+  }, [errors]);
+
+  const updateCell = (rowId: string, column: string, value: any) => {
+    onEdit(data.map(r => (r.id === rowId ? { ...r, [column]: value } : r)), `Edit ${column}`);
+  };
+
+  // New row below the given one, keeping its hole so the row lands in the same SITE_ID
+  const insertRowAfter = (row: any) => {
+    const blank: any = Object.fromEntries(currentColumns.map(col => [col, '']));
+    blank.id = Math.random().toString(36).substr(2, 9);
+    if ('SITE_ID' in row) blank.SITE_ID = row.SITE_ID;
+    const idx = data.findIndex(r => r.id === row.id);
+    onEdit([...data.slice(0, idx + 1), blank, ...data.slice(idx + 1)], 'Add row');
+  };
+
+  const deleteRow = (rowId: string) => {
+    onEdit(data.filter(r => r.id !== rowId), 'Delete row');
+  };
+
+  // Only headers that were actually renamed are worth showing
+  const renamedHeaders = headerMapping.filter(m => m.source !== m.canonical);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -855,8 +2894,7 @@ const DataImportCard = ({
              return;
           }
           
-          const normalizedData = normalizeHeaders(jsonData);
-          setData(normalizedData);
+          onImport(jsonData);
         } catch (error) {
           console.error(error);
           alert("Failed to parse file");
@@ -869,7 +2907,7 @@ const DataImportCard = ({
 
   const handleClear = () => {
     if (confirm(`Are you sure you want to clear all data from ${title}?`)) {
-      setData([]);
+      onEdit([], 'Clear table');
       setSearchQuery('');
       // Ensure input is reset so if user clears and tries to upload same file, it works
       if (fileInputRef.current) fileInputRef.current.value = '';
@@ -899,6 +2937,14 @@ const DataImportCard = ({
              {filteredData.length !== data.length 
                ? `${filteredData.length} of ${data.length} records found` 
                : `${data.length} records loaded`}
+             {data.length > 0 && headerMapping.length > 0 && (
+               <button
+                 onClick={() => setShowMapping(!showMapping)}
+                 className="ml-3 text-indigo-600 hover:text-indigo-800 font-medium"
+               >
+                 {showMapping ? 'Hide' : 'Show'} header mapping ({renamedHeaders.length} renamed)
+               </button>
+             )}
            </p>
         </div>
         <div className="flex gap-2 items-center">
@@ -915,6 +2961,25 @@ const DataImportCard = ({
              </div>
            )}
 
+           <div className="flex items-center border border-slate-200 rounded-md mr-1">
+             <button
+               onClick={onUndo}
+               disabled={!undoLabel}
+               className="p-2 text-slate-500 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-slate-500"
+               title={undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'}
+             >
+               <LucideUndo2 className="w-4 h-4" />
+             </button>
+             <button
+               onClick={onRedo}
+               disabled={!redoLabel}
+               className="p-2 text-slate-500 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-slate-500 border-l border-slate-200"
+               title={redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'}
+             >
+               <LucideRedo2 className="w-4 h-4" />
+             </button>
+           </div>
+
            {data.length > 0 && (
              <button 
                onClick={handleClear}
@@ -942,6 +3007,24 @@ const DataImportCard = ({
         </div>
       </div>
 
+      {showMapping && data.length > 0 && (
+        <div className="px-6 py-3 border-b border-slate-100 bg-slate-50 flex flex-wrap gap-2">
+          {headerMapping.map(m => (
+            <span
+              key={m.source}
+              className={`text-[11px] font-mono px-2 py-1 rounded border ${
+                m.rule === 'table' ? 'bg-indigo-50 text-indigo-700 border-indigo-100' :
+                m.rule === 'global' ? 'bg-emerald-50 text-emerald-700 border-emerald-100' :
+                'bg-white text-slate-500 border-slate-200'
+              }`}
+              title={m.rule === 'table' ? 'Table alias' : m.rule === 'global' ? 'Global alias' : 'Formatted only'}
+            >
+              {m.source} → {m.canonical}
+            </span>
+          ))}
+        </div>
+      )}
+
       {data.length === 0 ? (
         <div className="flex-1 flex flex-col items-center justify-center text-slate-400 bg-slate-50/50">
            <LucideFileSpreadsheet className="w-16 h-16 mb-4 text-slate-300" />
@@ -970,16 +3053,39 @@ const DataImportCard = ({
                   </tr>
                ) : (
                  <>
-                   {filteredData.slice(0, 100).map((row, idx) => (
-                     <tr key={row.id || idx} className="hover:bg-slate-50">
-                       <td className="px-6 py-2 text-slate-400 font-mono text-xs text-center border-r border-slate-50">{idx + 1}</td>
-                       {currentColumns.map(col => (
-                         <td key={col} className="px-6 py-2 text-slate-700">
-                           {row[col] !== undefined && row[col] !== null ? String(row[col]) : <span className="text-slate-300 italic">null</span>}
+                   {filteredData.slice(0, 100).map((row, idx) => {
+                     const issues = rowIssues.get(row.id) || [];
+                     const critical = issues.some(e => e.severity === ValidationSeverity.CRITICAL);
+                     return (
+                       <tr key={row.id || idx} className="hover:bg-slate-50 group">
+                         <td className="px-3 py-2 text-slate-400 font-mono text-xs text-center border-r border-slate-50">
+                           <div className="flex items-center justify-center gap-1">
+                             {issues.length > 0 && (
+                               <span
+                                 className={`w-2 h-2 rounded-full ${critical ? 'bg-red-500' : 'bg-amber-400'}`}
+                                 title={issues.map(e => e.message).join('\n')}
+                               />
+                             )}
+                             <span className="group-hover:hidden">{idx + 1}</span>
+                             <button onClick={() => insertRowAfter(row)} className="hidden group-hover:inline text-slate-400 hover:text-indigo-600" title="Insert row below">
+                               <LucidePlus className="w-3.5 h-3.5" />
+                             </button>
+                             <button onClick={() => deleteRow(row.id)} className="hidden group-hover:inline text-slate-400 hover:text-red-600" title="Delete row">
+                               <LucideTrash2 className="w-3.5 h-3.5" />
+                             </button>
+                           </div>
                          </td>
-                       ))}
-                     </tr>
-                   ))}
+                         {currentColumns.map(col => {
+                           const cellIssue = issues.some(e => (e.column || '').split('+').includes(col));
+                           return (
+                             <td key={col} className={`px-6 py-2 text-slate-700 ${cellIssue ? (critical ? 'bg-red-50' : 'bg-amber-50') : ''}`}>
+                               <EditableCell value={row[col]} onCommit={(value) => updateCell(row.id, col, value)} />
+                             </td>
+                           );
+                         })}
+                       </tr>
+                     );
+                   })}
                    {filteredData.length > 100 && (
                       <tr>
                         <td colSpan={currentColumns.length + 1} className="px-6 py-4 text-center text-slate-400 italic bg-slate-50">
@@ -997,19 +3103,272 @@ const DataImportCard = ({
   );
 };
 
+const WorkbookImportDialog = ({
+  fileName,
+  sheets,
+  tables,
+  hasDataMap,
+  onConfirm,
+  onCancel
+}: {
+  fileName: string,
+  sheets: WorkbookSheet[],
+  tables: TableDefinition[],
+  hasDataMap: Record<string, boolean>,
+  onConfirm: (mapping: { sheet: WorkbookSheet, table: string }[]) => void,
+  onCancel: () => void
+}) => {
+  // Sheet name -> target table ('' = skip)
+  const [mapping, setMapping] = useState<Record<string, string>>(() =>
+    Object.fromEntries(sheets.map(s => [s.sheetName, s.guessedTable || '']))
+  );
+
+  const assigned = Object.values(mapping).filter(t => t !== '');
+  const duplicateTargets = new Set(assigned.filter((t, i) => assigned.indexOf(t) !== i));
+  const overwriteTargets = Array.from(new Set(assigned.filter(t => hasDataMap[t])));
+
+  const handleConfirm = () => {
+    onConfirm(
+      sheets
+        .filter(s => mapping[s.sheetName])
+        .map(s => ({ sheet: s, table: mapping[s.sheetName] }))
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-6">
+      <div className="bg-white rounded-lg shadow-xl border border-slate-200 w-full max-w-3xl max-h-full flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+              <LucideFileSpreadsheet className="w-5 h-5 text-indigo-600" /> Import Workbook
+            </h3>
+            <p className="text-xs text-slate-500">{fileName} — {sheets.length} sheets found. Confirm which table each sheet loads into.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 p-1">
+            <LucideX className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 font-bold text-xs uppercase tracking-wider sticky top-0">
+              <tr>
+                <th className="px-6 py-3">Sheet</th>
+                <th className="px-4 py-3 text-right">Rows</th>
+                <th className="px-4 py-3">Headers</th>
+                <th className="px-6 py-3 w-56">Load Into</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sheets.map(sheet => {
+                const target = mapping[sheet.sheetName];
+                return (
+                  <tr key={sheet.sheetName} className="hover:bg-slate-50">
+                    <td className="px-6 py-3 font-medium text-slate-800">{sheet.sheetName}</td>
+                    <td className="px-4 py-3 text-right font-mono text-xs text-slate-500">{sheet.rows.length}</td>
+                    <td className="px-4 py-3 text-xs text-slate-400 max-w-[240px] truncate" title={sheet.headers.join(', ')}>
+                      {sheet.headers.join(', ')}
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="relative">
+                        <select
+                          className={`w-full appearance-none pl-3 pr-8 py-2 border rounded-md text-xs bg-white font-medium outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer ${
+                            target && duplicateTargets.has(target) ? 'border-red-300 text-red-700' : 'border-slate-200 text-slate-700'
+                          }`}
+                          value={target}
+                          onChange={(e) => setMapping({ ...mapping, [sheet.sheetName]: e.target.value })}
+                        >
+                          <option value="">-- Skip sheet --</option>
+                          {tables.map(t => (
+                            <option key={t.name} value={t.name}>{t.name}{t.name === sheet.guessedTable ? ' (detected)' : ''}</option>
+                          ))}
+                        </select>
+                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
+                          <LucideChevronDown className="h-3 w-3" />
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-between items-center gap-4">
+          <div className="text-xs">
+            {duplicateTargets.size > 0 ? (
+              <span className="text-red-600 flex items-center gap-1">
+                <LucideAlertTriangle className="w-3 h-3" /> More than one sheet targets {Array.from(duplicateTargets).join(', ')}.
+              </span>
+            ) : overwriteTargets.length > 0 ? (
+              <span className="text-amber-600 flex items-center gap-1">
+                <LucideAlertTriangle className="w-3 h-3" /> Existing data will be replaced in {overwriteTargets.join(', ')}.
+              </span>
+            ) : (
+              <span className="text-slate-400">{assigned.length} of {sheets.length} sheets will be loaded.</span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-white border border-slate-300 text-slate-600 text-sm font-medium rounded-md hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={assigned.length === 0 || duplicateTargets.size > 0}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-md transition-colors shadow-sm disabled:opacity-50"
+            >
+              <LucideUpload className="w-4 h-4" />
+              Load {assigned.length} Tables
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AutoFixDialog = ({
+  fixes,
+  onApply,
+  onCancel
+}: {
+  fixes: ProposedFix[],
+  onApply: (fixes: ProposedFix[]) => void,
+  onCancel: () => void
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(fixes.map(f => f.id)));
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const formatCell = (value: any) => (value === undefined || value === null || value === '' ? '(empty)' : String(value));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-6">
+      <div className="bg-white rounded-lg shadow-xl border border-slate-200 w-full max-w-4xl max-h-full flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+              <LucideWand2 className="w-5 h-5 text-indigo-600" /> Review Fixes
+            </h3>
+            <p className="text-xs text-slate-500">{fixes.length} findings have a proposed correction. Applied fixes change the loaded tables, then validation runs again.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 p-1">
+            <LucideX className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 font-bold text-xs uppercase tracking-wider sticky top-0">
+              <tr>
+                <th className="px-4 py-3 w-10">
+                  <input
+                    type="checkbox"
+                    className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                    checked={selected.size === fixes.length}
+                    onChange={(e) => setSelected(e.target.checked ? new Set(fixes.map(f => f.id)) : new Set())}
+                  />
+                </th>
+                <th className="px-4 py-3">Finding</th>
+                <th className="px-4 py-3">Row</th>
+                <th className="px-4 py-3">Column</th>
+                <th className="px-4 py-3">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {fixes.map(fix => fix.patches.map((patch, idx) => (
+                <tr key={`${fix.id}-${idx}`} className={`hover:bg-slate-50 ${selected.has(fix.id) ? '' : 'opacity-50'}`}>
+                  {idx === 0 && (
+                    <>
+                      <td className="px-4 py-3 align-top" rowSpan={fix.patches.length}>
+                        <input
+                          type="checkbox"
+                          className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                          checked={selected.has(fix.id)}
+                          onChange={() => toggle(fix.id)}
+                        />
+                      </td>
+                      <td className="px-4 py-3 align-top max-w-[320px]" rowSpan={fix.patches.length}>
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-[10px] font-bold px-2 py-0.5 rounded border bg-slate-50 text-slate-600 border-slate-200">{fix.table}</span>
+                          <span className="text-xs font-mono text-slate-500">{fix.siteId}</span>
+                        </div>
+                        <p className="text-xs text-slate-700">{fix.message}</p>
+                        <p className="text-[10px] text-indigo-600 mt-1">{fix.description}</p>
+                      </td>
+                    </>
+                  )}
+                  <td className="px-4 py-3 font-mono text-xs text-slate-500">{patch.rowId}</td>
+                  <td className="px-4 py-3 font-mono text-xs text-slate-700">{patch.column}</td>
+                  <td className="px-4 py-3 font-mono text-xs whitespace-nowrap">
+                    <span className="px-1.5 py-0.5 rounded bg-red-50 text-red-700 line-through">{formatCell(patch.from)}</span>
+                    <span className="text-slate-400 mx-2">→</span>
+                    <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700">{formatCell(patch.to)}</span>
+                  </td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-between items-center gap-4">
+          <span className="text-xs text-slate-400">{selected.size} of {fixes.length} fixes selected.</span>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-white border border-slate-300 text-slate-600 text-sm font-medium rounded-md hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(fixes.filter(f => selected.has(f.id)))}
+              disabled={selected.size === 0}
+              className="px-4 py-2 bg-white border border-indigo-200 text-indigo-700 text-sm font-bold rounded-md hover:bg-indigo-50 disabled:opacity-50"
+            >
+              Apply Selected
+            </button>
+            <button
+              onClick={() => onApply(fixes)}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-md transition-colors shadow-sm"
+            >
+              <LucideWand2 className="w-4 h-4" />
+              Apply All
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const Dashboard = () => {
-  // Data State
-  const [collarData, setCollarData] = useState<any[]>(sampleCollar);
-  const [surveyData, setSurveyData] = useState<any[]>(sampleSurvey);
-  const [lithologyData, setLithologyData] = useState<any[]>(sampleLithology);
-  const [assayData, setAssayData] = useState<any[]>(sampleAssay);
-  const [mineralizationData, setMineralizationData] = useState<any[]>(sampleMineralization);
-  const [oxidationData, setOxidationData] = useState<any[]>(sampleOxidation);
-  const [geotechData, setGeotechData] = useState<any[]>(sampleGeotech);
-  const [rqdData, setRqdData] = useState<any[]>(sampleRQD);
-  const [veinData, setVeinData] = useState<any[]>(sampleVein);
-  const [alterationData, setAlterationData] = useState<any[]>(sampleAlteration);
-  const [densityData, setDensityData] = useState<any[]>(sampleDensity);
+  // Table Registry: built-in tables plus custom tables saved with the config
+  const [tables, setTables] = useState<TableDefinition[]>(() => {
+    if (typeof window !== 'undefined') {
+        const saved = localStorage.getItem('drillcore_tables');
+        if (saved) {
+            try {
+                return mergeTableDefinitions(JSON.parse(saved), defaultTableDefinitions);
+            } catch (e) {
+                 console.error("Error parsing saved tables", e);
+            }
+        }
+    }
+    return mergeTableDefinitions(('tables' in userConfig ? userConfig.tables : []) as TableDefinition[], defaultTableDefinitions);
+  });
+
+  // Data State: rows per table, keyed by table name
+  const [tableData, setTableData] = useState<Record<string, any[]>>(sampleTableData);
 
   // Config State with Persistence Logic:
   // 1. Try LocalStorage (Recent Edits)
@@ -1021,24 +3380,15 @@ const Dashboard = () => {
         if (saved) {
             try {
                 const parsed = JSON.parse(saved) as TableConfig[];
-                // Ensure all tables from defaultConfigs are present
-                const savedConfigTypes = new Set(parsed.map(c => c.tableType));
-                
-                // If any default config is missing in saved, add it
-                const missingConfigs = defaultConfigs.filter(dc => !savedConfigTypes.has(dc.tableType));
-                if (missingConfigs.length > 0) {
-                  console.log(`Adding missing table configs: ${missingConfigs.map(c => c.tableType).join(', ')}`);
-                  return [...parsed, ...missingConfigs];
-                }
-                
-                return parsed;
+                // Ensure every registered table has a config
+                return ensureTableConfigs(parsed, tables, defaultConfigs);
             } catch (e) {
                 console.error("Error parsing saved configs", e);
             }
         }
     }
     // Type casting because importing JSON can sometimes infer narrower types
-    return (userConfig.configs || defaultConfigs) as TableConfig[];
+    return ensureTableConfigs((userConfig.configs || defaultConfigs) as TableConfig[], tables, defaultConfigs);
   });
 
   const [libraries, setLibraries] = useState<CodeLibrary[]>(() => {
@@ -1055,6 +3405,38 @@ const Dashboard = () => {
     return (userConfig.libraries || defaultLibraries) as CodeLibrary[];
   });
 
+  const [headerAliases, setHeaderAliases] = useState<HeaderAliasConfig>(() => {
+    if (typeof window !== 'undefined') {
+        const saved = localStorage.getItem('drillcore_header_aliases');
+        if (saved) {
+            try {
+                return JSON.parse(saved);
+            } catch (e) {
+                 console.error("Error parsing saved header aliases", e);
+            }
+        }
+    }
+    return ('headerAliases' in userConfig ? userConfig.headerAliases : defaultHeaderAliases) as HeaderAliasConfig;
+  });
+
+  // QAQC reference materials (standards) with expected values
+  const [referenceMaterials, setReferenceMaterials] = useState<ReferenceMaterial[]>(() => {
+    if (typeof window !== 'undefined') {
+        const saved = localStorage.getItem('drillcore_reference_materials');
+        if (saved) {
+            try {
+                return JSON.parse(saved);
+            } catch (e) {
+                 console.error("Error parsing saved reference materials", e);
+            }
+        }
+    }
+    return ('referenceMaterials' in userConfig ? userConfig.referenceMaterials : []) as ReferenceMaterial[];
+  });
+
+  // Header mapping of the last import per table, shown in the Data section
+  const [headerMappings, setHeaderMappings] = useState<Record<string, HeaderMapping[]>>({});
+
   // UI Version State: Used to force remount of configuration components upon import/reset
   // This solves the issue where internal state (tabs, inputs) doesn't reset when parent props change.
   // const [configUiVersion, setConfigUiVersion] = useState(0);
@@ -1065,8 +3447,13 @@ const Dashboard = () => {
 
   // UI State
   const [activeSection, setActiveSection] = useState<'import' | 'config' | 'validate'>('import');
-  const [activeImportType, setActiveImportType] = useState<TableType>(TableType.COLLAR);
+  const [activeImportType, setActiveImportType] = useState<string>(TableType.COLLAR);
   const [validationResult, setValidationResult] = useState<ValidationSummary | null>(null);
+  const [desurveyMethod, setDesurveyMethod] = useState<DesurveyMethod>('minimum_curvature');
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ fileName: string, sheets: WorkbookSheet[] } | null>(null);
+  const [showFixes, setShowFixes] = useState(false);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const workbookInputRef = useRef<HTMLInputElement>(null);
 
   // --- Load Config from Supabase on Mount ---
   // Try to fetch the shared config from Supabase on first load
@@ -1080,20 +3467,20 @@ const Dashboard = () => {
       try {
         const supabaseConfig = await loadConfigFromSupabase();
         if (supabaseConfig?.configs && supabaseConfig?.libraries) {
-          let configs = supabaseConfig.configs as TableConfig[];
-          
-          // Ensure all tables from defaultConfigs are present
-          const loadedConfigTypes = new Set(configs.map(c => c.tableType));
-          
-          // If any default config is missing in loaded, add it
-          const missingConfigs = defaultConfigs.filter(dc => !loadedConfigTypes.has(dc.tableType));
-          if (missingConfigs.length > 0) {
-            console.log(`Adding missing table configs to Supabase load: ${missingConfigs.map(c => c.tableType).join(', ')}`);
-            configs = [...configs, ...missingConfigs];
-          }
-          
-          setConfigs(configs);
+          const loadedTables = supabaseConfig.tables
+            ? mergeTableDefinitions(supabaseConfig.tables as TableDefinition[], defaultTableDefinitions)
+            : tables;
+
+          // Ensure every registered table has a config
+          setTables(loadedTables);
+          setConfigs(ensureTableConfigs(supabaseConfig.configs as TableConfig[], loadedTables, defaultConfigs));
           setLibraries(supabaseConfig.libraries as CodeLibrary[]);
+          if (supabaseConfig.header_aliases) {
+            setHeaderAliases(supabaseConfig.header_aliases as HeaderAliasConfig);
+          }
+          if (supabaseConfig.reference_materials) {
+            setReferenceMaterials(supabaseConfig.reference_materials as ReferenceMaterial[]);
+          }
           setSyncStatus('synced');
           console.log('Config loaded from Supabase');
         }
@@ -1108,6 +3495,9 @@ const Dashboard = () => {
     loadSupabaseConfig();
   }, []); // Run once on mount
 
+  // Only custom tables are persisted; built-in definitions always come from code
+  const customTables = useMemo(() => tables.filter(t => t.isCustom), [tables]);
+
   // --- Auto-Save Effect ---
   // Automatically saves to localStorage and Supabase whenever configs or libraries change.
   useEffect(() => {
@@ -1118,6 +3508,9 @@ const Dashboard = () => {
       try {
         localStorage.setItem('drillcore_configs', JSON.stringify(configs));
         localStorage.setItem('drillcore_libraries', JSON.stringify(libraries));
+        localStorage.setItem('drillcore_header_aliases', JSON.stringify(headerAliases));
+        localStorage.setItem('drillcore_tables', JSON.stringify(customTables));
+        localStorage.setItem('drillcore_reference_materials', JSON.stringify(referenceMaterials));
       } catch (e) {
         console.error("localStorage auto-save failed:", e);
       }
@@ -1126,8 +3519,8 @@ const Dashboard = () => {
       if (isSupabaseConfigured()) {
         setSyncStatus('syncing');
         try {
-          await saveConfigToSupabase(configs, libraries);
-          setSyncStatus('synced');
+          const saved = await saveConfigToSupabase(configs, libraries, headerAliases, customTables, referenceMaterials);
+          setSyncStatus(saved ? 'synced' : 'error');
         } catch (error) {
           console.error("Supabase auto-save failed:", error);
           setSyncStatus('error');
@@ -1138,14 +3531,17 @@ const Dashboard = () => {
     // Debounce to avoid too many requests
     const debounceTimer = setTimeout(autoSave, 500);
     return () => clearTimeout(debounceTimer);
-  }, [configs, libraries, isLoadingSupabase]);
+  }, [configs, libraries, headerAliases, customTables, referenceMaterials, isLoadingSupabase]);
 
   const handleExportConfig = () => {
     const payload = {
       timestamp: new Date().toISOString(),
-      version: "1.0",
+      version: CONFIG_VERSION,
       libraries,
-      configs
+      configs,
+      headerAliases,
+      tables: customTables,
+      referenceMaterials
     };
     
     // Export specifically as JSON so users can overwrite the project file
@@ -1165,115 +3561,298 @@ const Dashboard = () => {
       return Object.keys(data[0]).filter(k => k !== 'id' && k !== 'ROW_ID');
   };
 
-  const availableColumnsMap = useMemo(() => ({
-    [TableType.COLLAR]: getAvailableColumns(collarData),
-    [TableType.SURVEY]: getAvailableColumns(surveyData),
-    [TableType.LITHOLOGY]: getAvailableColumns(lithologyData),
-    [TableType.ASSAY]: getAvailableColumns(assayData),
-    [TableType.MINERALIZATION]: getAvailableColumns(mineralizationData),
-    [TableType.OXIDATION]: getAvailableColumns(oxidationData),
-    [TableType.GEOTECH]: getAvailableColumns(geotechData),
-    [TableType.RQD]: getAvailableColumns(rqdData),
-    [TableType.VEIN]: getAvailableColumns(veinData),
-    [TableType.ALTERATION]: getAvailableColumns(alterationData),
-    [TableType.DENSITY]: getAvailableColumns(densityData),
-  }), [collarData, surveyData, lithologyData, assayData, mineralizationData, oxidationData, geotechData, rqdData, veinData, alterationData, densityData]);
-
-  const hasDataMap = useMemo(() => ({
-    [TableType.COLLAR]: collarData.length > 0,
-    [TableType.SURVEY]: surveyData.length > 0,
-    [TableType.LITHOLOGY]: lithologyData.length > 0,
-    [TableType.ASSAY]: assayData.length > 0,
-    [TableType.MINERALIZATION]: mineralizationData.length > 0,
-    [TableType.OXIDATION]: oxidationData.length > 0,
-    [TableType.GEOTECH]: geotechData.length > 0,
-    [TableType.RQD]: rqdData.length > 0,
-    [TableType.VEIN]: veinData.length > 0,
-    [TableType.ALTERATION]: alterationData.length > 0,
-    [TableType.DENSITY]: densityData.length > 0,
-  }), [collarData, surveyData, lithologyData, assayData, mineralizationData, oxidationData, geotechData, rqdData, veinData, alterationData, densityData]);
-
-
-  const handleRunValidation = () => {
-    const summary = runValidation(
-      collarData as CollarRow[],
-      surveyData as SurveyRow[],
-      lithologyData as IntervalRow[],
-      assayData as IntervalRow[],
-      mineralizationData as IntervalRow[],
-      oxidationData as IntervalRow[],
-      geotechData as IntervalRow[],
-      rqdData as IntervalRow[],
-      veinData as IntervalRow[],
-      alterationData as IntervalRow[],
-      densityData as IntervalRow[],
-      configs,
-      libraries
-    );
-    setValidationResult(summary);
-  };
-
-  const getDataSetter = (type: TableType) => {
-    switch (type) {
-      case TableType.COLLAR: return setCollarData;
-      case TableType.SURVEY: return setSurveyData;
-      case TableType.LITHOLOGY: return setLithologyData;
-      case TableType.ASSAY: return setAssayData;
-      case TableType.MINERALIZATION: return setMineralizationData;
-      case TableType.OXIDATION: return setOxidationData;
-      case TableType.GEOTECH: return setGeotechData;
-      case TableType.RQD: return setRqdData;
-      case TableType.VEIN: return setVeinData;
-      case TableType.ALTERATION: return setAlterationData;
-      case TableType.DENSITY: return setDensityData;
-      default: return () => {};
+  const availableColumnsMap = useMemo(
+    () => Object.fromEntries(tables.map(t => [t.name, getAvailableColumns(tableData[t.name] || [])])),
+    [tables, tableData]
+  );
+
+  const hasDataMap = useMemo(
+    () => Object.fromEntries(tables.map(t => [t.name, (tableData[t.name] || []).length > 0])),
+    [tables, tableData]
+  );
+
+  // Expected columns per table, for header highlighting and table detection
+  const expectedColumns = useMemo(
+    () => buildExpectedColumns(tables, configs, defaultExpectedColumns),
+    [tables, configs]
+  );
+
+  const handleRunValidation = (data: Record<string, any[]> = tableData) => {
+    const summary = runValidation(data, tables, configs, libraries, referenceMaterials);
+    setValidationResult({ ...summary, meta: buildRunMeta(data, tables, configs, libraries, CONFIG_VERSION) });
+  };
+
+  // Fixes proposed by the last run, one per fixable row-level finding
+  const proposedFixes = useMemo(
+    () => (validationResult ? collectFixes(validationResult.detailedErrors) : []),
+    [validationResult]
+  );
+
+  // Swap in new rows for some tables and, unless the caller runs a full validation
+  // itself, refresh the findings of the sites they touch
+  const replaceTables = (before: Record<string, any[]>, after: Record<string, any[]>, revalidate = true) => {
+    const next = { ...tableData, ...after };
+    setTableData(next);
+    if (revalidate && validationResult) {
+      const summary = revalidateSites(validationResult, next, tables, configs, libraries, referenceMaterials, changedSiteIds(before, after));
+      setValidationResult({ ...summary, meta: buildRunMeta(next, tables, configs, libraries, CONFIG_VERSION) });
+    }
+    return next;
+  };
+
+  // Record an undoable change to one or more tables
+  const commitEdit = (label: string, after: Record<string, any[]>, revalidate = true) => {
+    const before = Object.fromEntries(Object.keys(after).map(t => [t, getData(t)]));
+    setHistory(recordEdit(history, { label, before, after }));
+    return replaceTables(before, after, revalidate);
+  };
+
+  const handleUndo = () => {
+    const edit = history.past[history.past.length - 1];
+    if (!edit) return;
+    setHistory(undoEdit(history));
+    replaceTables(edit.after, edit.before);
+  };
+
+  const handleRedo = () => {
+    const edit = history.future[0];
+    if (!edit) return;
+    setHistory(redoEdit(history));
+    replaceTables(edit.before, edit.after);
+  };
+
+  // Patch the in-memory tables (undoable), then run one full validation of the
+  // corrected data instead of the per-site refresh
+  const handleApplyFixes = (fixes: ProposedFix[]) => {
+    const result = applyFixes(tableData, fixes);
+    const changed = Object.fromEntries(Object.entries(result.tableData).filter(([t, rows]) => rows !== tableData[t]));
+    const next = commitEdit(`Apply ${fixes.length} fixes`, changed, false);
+    setShowFixes(false);
+    handleRunValidation(next);
+    if (result.skipped > 0) {
+      alert(`${result.applied} changes applied. ${result.skipped} skipped because the data changed after validation.`);
+    }
+  };
+
+  const reportFileName = (ext: string) => {
+    const stamp = (validationResult?.meta?.timestamp || new Date().toISOString()).replace(/[:.]/g, '-');
+    return `validation_report_${stamp}.${ext}`;
+  };
+
+  const handleExportReport = (format: 'xlsx' | 'csv' | 'html' | 'annotated') => {
+    if (!validationResult) return;
+
+    if (format === 'annotated') {
+      // Original tables back with QA columns and offending cells highlighted
+      const registeredData = Object.fromEntries(tables.map(t => [t.name, getData(t.name)]));
+      writeAnnotatedWorkbook(buildAnnotatedWorkbook(registeredData, validationResult.detailedErrors), reportFileName('annotated.xlsx'));
+      return;
+    }
+
+    if (format === 'xlsx') {
+      XLSX.writeFile(buildReportWorkbook(validationResult), reportFileName('xlsx'));
+    } else if (format === 'csv') {
+      downloadFile(buildReportCsv(validationResult), reportFileName('csv'), 'text/csv;charset=utf-8');
+    } else {
+      // Open a printable report; the browser's print dialog can save it as PDF
+      const html = buildReportHtml(validationResult);
+      const printWindow = window.open('', '_blank');
+      if (printWindow) {
+        printWindow.document.write(html);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      } else {
+        downloadFile(html, reportFileName('html'), 'text/html;charset=utf-8');
+      }
     }
   };
 
-  const getData = (type: TableType) => {
-    switch (type) {
-      case TableType.COLLAR: return collarData;
-      case TableType.SURVEY: return surveyData;
-      case TableType.LITHOLOGY: return lithologyData;
-      case TableType.ASSAY: return assayData;
-      case TableType.MINERALIZATION: return mineralizationData;
-      case TableType.OXIDATION: return oxidationData;
-      case TableType.GEOTECH: return geotechData;
-      case TableType.RQD: return rqdData;
-      case TableType.VEIN: return veinData;
-      case TableType.ALTERATION: return alterationData;
-      case TableType.DENSITY: return densityData;
-      default: return [];
+  // Normalize raw rows with the configured aliases, load them and remember the header mapping
+  const importTableRows = (type: string, rawRows: any[]) => {
+    const { rows, mapping } = normalizeHeaders(rawRows, headerAliases, type);
+    setTableRows(type, rows);
+    setHeaderMappings(prev => ({ ...prev, [type]: mapping }));
+    // Undo history covers edits since the last import
+    setHistory(EMPTY_HISTORY);
+  };
+
+  // Read every sheet of a workbook and let the user confirm the sheet -> table mapping
+  const handleWorkbookUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      const bstr = evt.target?.result;
+      if (bstr) {
+        try {
+          const wb = XLSX.read(bstr, { type: 'binary' });
+          const sheets = readWorkbookSheets(wb, rows => normalizeHeaders(rows, headerAliases).rows, tables, expectedColumns);
+          if (sheets.length === 0) {
+            alert("Workbook contains no data");
+            return;
+          }
+          setPendingWorkbook({ fileName: file.name, sheets });
+        } catch (error) {
+          console.error(error);
+          alert("Failed to parse workbook");
+        }
+      }
+    };
+    reader.readAsBinaryString(file);
+    if (workbookInputRef.current) workbookInputRef.current.value = '';
+  };
+
+  const handleConfirmWorkbook = (mapping: { sheet: WorkbookSheet, table: string }[]) => {
+    mapping.forEach(({ sheet, table }) => importTableRows(table, sheet.rows));
+    setPendingWorkbook(null);
+    if (mapping.length > 0) setActiveImportType(mapping[0].table);
+  };
+
+  // Desurvey all interval tables and download midpoint XYZ per row as a workbook.
+  // Tables converting alpha/beta also get true dip / dip direction per measurement.
+  const handleExportDesurvey = () => {
+    const collarTable = getCollarTable(tables);
+    const surveyTable = tables.find(t => t.kind === 'survey');
+    const collarData = collarTable ? getData(collarTable.name) : [];
+    if (collarData.length === 0) {
+      alert("Load Collar data (with X, Y, Z) before desurveying.");
+      return;
     }
+
+    const intervalTables = tables
+      .filter(t => t.kind === 'interval')
+      .map(t => ({ table: t.name, rows: getData(t.name) as IntervalRow[] }))
+      .filter(t => t.rows.length > 0);
+
+    const structureTables = tables
+      .map(t => ({ t, rules: configs.find(c => c.tableType === t.name)?.structureRules }))
+      .filter(({ t, rules }) => (t.kind === 'interval' || t.kind === 'point') && rules?.convertOrientation && getData(t.name).length > 0)
+      .map(({ t, rules }) => ({ table: t.name, rows: getData(t.name), alphaColumn: rules!.alphaColumn, betaColumn: rules!.betaColumn }));
+
+    const options = { method: desurveyMethod, dipPositiveDown: false };
+    const surveyData = (surveyTable ? getData(surveyTable.name) : []) as SurveyRow[];
+    const result = desurvey(collarData as CollarRow[], surveyData, intervalTables, options, {
+      collar: collarTable!.name,
+      survey: surveyTable?.name || TableType.SURVEY,
+    });
+    const orientations = orientStructures(collarData as CollarRow[], surveyData, structureTables, options);
+
+    const wb = XLSX.utils.book_new();
+    const exportTables = [
+      ...intervalTables,
+      ...structureTables.filter(s => !intervalTables.some(t => t.table === s.table)),
+    ];
+    exportTables.forEach(({ table, rows }) => {
+      const positions = new Map(result.intervals.filter(i => i.table === table).map(i => [i.rowId, i]));
+      const oriented = new Map(orientations.filter(o => o.table === table).map(o => [o.rowId, o]));
+      const isInterval = intervalTables.some(t => t.table === table);
+      const isStructure = structureTables.some(s => s.table === table);
+      const sheetRows = rows.map(row => {
+        const { id, ...rest } = row;
+        const pos = positions.get(id);
+        const orientation = oriented.get(id);
+        return {
+          ...rest,
+          ...(isInterval ? {
+            MID_DEPTH: pos?.midDepth ?? '',
+            MID_X: pos ? Number(pos.x.toFixed(3)) : '',
+            MID_Y: pos ? Number(pos.y.toFixed(3)) : '',
+            MID_Z: pos ? Number(pos.z.toFixed(3)) : '',
+          } : {}),
+          ...(isStructure ? {
+            TRUE_DIP: orientation ? Number(orientation.dip.toFixed(1)) : '',
+            DIP_DIRECTION: orientation ? Number(orientation.dipDirection.toFixed(1)) : '',
+          } : {}),
+        };
+      });
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sheetRows), table.slice(0, 31));
+    });
+
+    const issues = result.errors.map(e => ({ SITE_ID: e.siteId, TABLE: e.table, SEVERITY: e.severity, MESSAGE: e.message }));
+    XLSX.utils.book_append_sheet(
+      wb,
+      issues.length > 0 ? XLSX.utils.json_to_sheet(issues) : XLSX.utils.aoa_to_sheet([['No desurvey issues found']]),
+      'DESURVEY_ISSUES'
+    );
+    XLSX.writeFile(wb, `desurvey_${desurveyMethod}.xlsx`);
+  };
+
+  const getData = (type: string) => tableData[type] || [];
+
+  const setTableRows = (type: string, rows: any[]) => {
+    setTableData(prev => ({ ...prev, [type]: rows }));
+  };
+
+  const handleAddTable = (table: TableDefinition) => {
+    setTables([...tables, table]);
+    setConfigs(ensureTableConfigs(configs, [table], defaultConfigs));
+  };
+
+  const handleRemoveTable = (name: string) => {
+    setTables(tables.filter(t => t.name !== name));
+    setConfigs(configs.filter(c => c.tableType !== name));
+    setTableData(prev => {
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (activeImportType === name) setActiveImportType(TableType.COLLAR);
   };
 
+  const activeImportTable = tables.find(t => t.name === activeImportType);
+
   const renderContent = () => {
     if (activeSection === 'import') {
        return (
          <div className="flex h-full gap-6">
             <div className="w-64 flex-shrink-0 flex flex-col gap-2">
               <h3 className="font-bold text-slate-700 px-2 mb-2 uppercase tracking-wider text-xs">Data Tables</h3>
-              {Object.values(TableType).map(type => (
+              {tables.map(({ name, label }) => (
                 <button
-                  key={type}
-                  onClick={() => setActiveImportType(type)}
+                  key={name}
+                  onClick={() => setActiveImportType(name)}
                   className={`flex items-center justify-between px-4 py-3 rounded-lg text-sm font-medium transition-all ${
-                    activeImportType === type 
+                    activeImportType === name 
                     ? 'bg-indigo-600 text-white shadow-md shadow-indigo-200' 
                     : 'bg-white text-slate-600 hover:bg-slate-50 border border-transparent hover:border-slate-200'
                   }`}
                 >
-                  {type.charAt(0) + type.slice(1).toLowerCase().replace('_', ' ')}
-                  {hasDataMap[type] && <LucideCheckCircle className={`w-4 h-4 ${activeImportType === type ? 'text-indigo-200' : 'text-emerald-500'}`} />}
+                  {label}
+                  {hasDataMap[name] && <LucideCheckCircle className={`w-4 h-4 ${activeImportType === name ? 'text-indigo-200' : 'text-emerald-500'}`} />}
                 </button>
               ))}
+              <div className="mt-4 pt-4 border-t border-slate-200">
+                <button
+                  onClick={() => workbookInputRef.current?.click()}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 text-sm font-medium transition-colors"
+                  title="Load Collar, Survey, Assay, ... sheets from one workbook"
+                >
+                  <LucideFileSpreadsheet className="w-4 h-4" />
+                  Import Workbook
+                </button>
+                <input
+                  type="file"
+                  ref={workbookInputRef}
+                  onChange={handleWorkbookUpload}
+                  className="hidden"
+                  accept=".xlsx, .xls"
+                />
+              </div>
             </div>
             <div className="flex-1 h-full">
                <DataImportCard 
-                 title={activeImportType.charAt(0) + activeImportType.slice(1).toLowerCase().replace('_', ' ')}
+                 title={activeImportTable?.label || activeImportType}
                  data={getData(activeImportType)}
-                 setData={getDataSetter(activeImportType)}
-                 requiredColumns={defaultExpectedColumns[activeImportType] || []}
+                 onEdit={(rows, label) => commitEdit(label, { [activeImportType]: rows })}
+                 onImport={(rawRows) => importTableRows(activeImportType, rawRows)}
+                 headerMapping={headerMappings[activeImportType] || []}
+                 requiredColumns={expectedColumns[activeImportType] || []}
+                 errors={(validationResult?.detailedErrors || []).filter(e => e.table === activeImportType)}
+                 undoLabel={history.past[history.past.length - 1]?.label}
+                 redoLabel={history.future[0]?.label}
+                 onUndo={handleUndo}
+                 onRedo={handleRedo}
                />
             </div>
          </div>
@@ -1340,7 +3919,14 @@ const Dashboard = () => {
 
            <div className="flex flex-col gap-6">
              {/* ConfigPanel and LibraryManager components */}
+             <TableRegistryManager
+               tables={tables}
+               configs={configs}
+               onAddTable={handleAddTable}
+               onRemoveTable={handleRemoveTable}
+             />
              <ConfigPanel 
+               tables={tables}
                configs={configs} 
                libraries={libraries} 
                setConfigs={setConfigs}
@@ -1350,6 +3936,15 @@ const Dashboard = () => {
                libraries={libraries} 
                setLibraries={setLibraries} 
              />
+             <ReferenceMaterialManager
+               materials={referenceMaterials}
+               setMaterials={setReferenceMaterials}
+             />
+             <HeaderAliasManager
+               tables={tables}
+               headerAliases={headerAliases}
+               setHeaderAliases={setHeaderAliases}
+             />
            </div>
         </div>
       );
@@ -1365,13 +3960,34 @@ const Dashboard = () => {
                </h2>
                <p className="text-slate-500 text-sm mt-1">Run all configured checks against imported data.</p>
              </div>
+             <div className="flex items-center gap-3">
+             <div className="flex items-center gap-2 border border-slate-200 rounded-lg p-1 pl-3">
+               <select
+                 className="text-xs bg-white text-slate-700 font-medium outline-none cursor-pointer"
+                 value={desurveyMethod}
+                 onChange={(e) => setDesurveyMethod(e.target.value as DesurveyMethod)}
+                 title="Desurvey method"
+               >
+                 <option value="minimum_curvature">Minimum Curvature</option>
+                 <option value="tangential">Tangential</option>
+               </select>
+               <button
+                 onClick={handleExportDesurvey}
+                 className="flex items-center gap-2 px-3 py-2 bg-white hover:bg-slate-50 text-slate-700 text-sm font-medium rounded-md border border-slate-300 transition-colors"
+                 title="Compute XYZ midpoints for every interval (and true dip / dip direction of alpha/beta measurements) and download as Excel"
+               >
+                 <LucideFileSpreadsheet className="w-4 h-4" />
+                 Export XYZ
+               </button>
+             </div>
              <button 
-               onClick={handleRunValidation}
+               onClick={() => handleRunValidation()}
                className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow-lg hover:shadow-indigo-200 transition-all active:scale-95"
              >
                <LucidePlayCircle className="w-5 h-5" />
                Run Validation
              </button>
+             </div>
            </div>
            
            <div className="flex-1 overflow-auto bg-slate-50 p-6">
@@ -1420,9 +4036,49 @@ const Dashboard = () => {
                  <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
                    <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
                      <h3 className="font-bold text-slate-800">Detailed Issues</h3>
-                     <span className="text-xs font-mono text-slate-400 bg-white px-2 py-1 rounded border border-slate-200">
-                       {validationResult.errors.length} items
-                     </span>
+                     <div className="flex items-center gap-2">
+                       <span className="text-xs text-slate-400 mr-1">Export:</span>
+                       <button
+                         onClick={() => handleExportReport('xlsx')}
+                         className="text-xs font-medium px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+                         title="Summary plus one sheet per table"
+                       >
+                         Excel
+                       </button>
+                       <button
+                         onClick={() => handleExportReport('csv')}
+                         className="text-xs font-medium px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+                       >
+                         CSV
+                       </button>
+                       <button
+                         onClick={() => handleExportReport('html')}
+                         className="text-xs font-medium px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+                         title="Printable report (save as PDF from the print dialog)"
+                       >
+                         Print / PDF
+                       </button>
+                       <button
+                         onClick={() => handleExportReport('annotated')}
+                         className="text-xs font-medium px-2 py-1 rounded border border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+                         title="Imported tables with _QA_STATUS / _QA_MESSAGES columns and offending cells highlighted"
+                       >
+                         Annotated Data
+                       </button>
+                       {proposedFixes.length > 0 && (
+                         <button
+                           onClick={() => setShowFixes(true)}
+                           className="flex items-center gap-1 text-xs font-bold px-2 py-1 rounded border border-emerald-200 bg-emerald-50 text-emerald-700 hover:bg-emerald-100 ml-2"
+                           title="Review proposed corrections and apply them to the loaded tables"
+                         >
+                           <LucideWand2 className="w-3 h-3" />
+                           Review Fixes ({proposedFixes.length})
+                         </button>
+                       )}
+                       <span className="text-xs font-mono text-slate-400 bg-white px-2 py-1 rounded border border-slate-200 ml-2">
+                         {validationResult.errors.length} items
+                       </span>
+                     </div>
                    </div>
                    {validationResult.errors.length === 0 ? (
                       <div className="p-12 text-center text-slate-400 flex flex-col items-center">
@@ -1457,6 +4113,11 @@ const Dashboard = () => {
                                )}
                              </div>
                              <p className="text-sm text-slate-700 font-medium">{err.message}</p>
+                             {err.fix && (
+                               <p className="text-xs text-emerald-600 mt-1 flex items-center gap-1">
+                                 <LucideWand2 className="w-3 h-3" /> Fix available: {err.fix.description}
+                               </p>
+                             )}
                              <p className="text-xs text-slate-400 mt-1">Error ID: {err.id}</p>
                            </div>
                          </div>
@@ -1531,6 +4192,25 @@ const Dashboard = () => {
             {renderContent()}
          </main>
        </div>
+
+       {pendingWorkbook && (
+         <WorkbookImportDialog
+           fileName={pendingWorkbook.fileName}
+           sheets={pendingWorkbook.sheets}
+           tables={tables}
+           hasDataMap={hasDataMap}
+           onConfirm={handleConfirmWorkbook}
+           onCancel={() => setPendingWorkbook(null)}
+         />
+       )}
+
+       {showFixes && (
+         <AutoFixDialog
+           fixes={proposedFixes}
+           onApply={handleApplyFixes}
+           onCancel={() => setShowFixes(false)}
+         />
+       )}
     </div>
   );
 };
@@ -1,7 +1,63 @@
-import { TableConfig, TableType, CodeLibrary, CollarRow, SurveyRow, IntervalRow } from '../types';
+import { TableConfig, TableType, TableDefinition, CodeLibrary, SpecialValueRule, HeaderAliasConfig } from '../types';
+import { DEFAULT_INTERVAL_RULES } from '../services/validationEngine';
+
+// Version stamped on exported configs and validation reports
+export const CONFIG_VERSION = '1.0';
 
 export const defaultLibraries: CodeLibrary[] = [];
 
+// Built-in tables. Custom tables defined in the Config screen are appended to this registry.
+export const defaultTableDefinitions: TableDefinition[] = [
+  { name: TableType.COLLAR, label: 'Collar', kind: 'collar', keyColumns: ['SITE_ID'] },
+  { name: TableType.SURVEY, label: 'Survey', kind: 'survey', keyColumns: ['SITE_ID', 'DEPTH'] },
+  { name: TableType.LITHOLOGY, label: 'Lithology', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+  { name: TableType.ASSAY, label: 'Assay', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+  { name: TableType.MINERALIZATION, label: 'Mineralization', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+  { name: TableType.OXIDATION, label: 'Oxidation', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+  { name: TableType.GEOTECH, label: 'Geotech', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+  { name: TableType.RQD, label: 'RQD', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+  { name: TableType.VEIN, label: 'Vein', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+  { name: TableType.ALTERATION, label: 'Alteration', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+  { name: TableType.DENSITY, label: 'Density', kind: 'interval', keyColumns: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'] },
+];
+
+// Starting point when enabling lab qualifiers / sentinel codes on a numeric column
+export const defaultSpecialValueRule: SpecialValueRule = {
+  belowPrefix: '<',
+  abovePrefix: '>',
+  substituteHalfDetectionLimit: false,
+  sentinels: [
+    { code: '-99', meaning: 'Not analysed' },
+    { code: 'IS', meaning: 'Insufficient sample' },
+    { code: 'NSS', meaning: 'No sample submitted' },
+  ],
+};
+
+// Columns typically found in each table (UPPERCASE). Used to highlight headers and detect tables on import.
+export const defaultExpectedColumns: Record<string, string[]> = {
+  [TableType.COLLAR]: ['SITE_ID', 'END_DEPTH', 'PROJECT_CODE', 'START_DATE', 'END_DATE', 'DRILL_TYPE', 'X', 'Y', 'Z'],
+  [TableType.SURVEY]: ['SITE_ID', 'DEPTH', 'AZIMUTH', 'DIP', 'SURVEY_METHOD', 'DATE'],
+  [TableType.LITHOLOGY]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'LITH_CODE', 'DESCRIPTION', 'TEXTURE', 'ALTERATION', 'WEATHERING'],
+  [TableType.ASSAY]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'SAMPLE_ID', 'AU_PPM', 'AG_PPM', 'CU_PCT', 'DENSITY', 'LAB_JOB_NO', 'WEIGHT'],
+  [TableType.MINERALIZATION]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'MIN_CODE', 'PERCENTAGE', 'STYLE', 'INTENSITY'],
+  [TableType.OXIDATION]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'OX_CODE', 'INTENSITY', 'BASE_OF_COMPLETE_OX'],
+  [TableType.GEOTECH]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'RECOVERY', 'ROCK_STRENGTH', 'WEATHERING', 'DEFECT_COUNT'],
+  [TableType.RQD]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'RQD_PERCENT', 'FRACTURE_FREQUENCY'],
+  [TableType.VEIN]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'VEIN_TYPE', 'PERCENTAGE', 'ALPHA_ANGLE', 'BETA_ANGLE'],
+  [TableType.ALTERATION]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'ALTER_TYPE', 'INTENSITY', 'MINERALOGY'],
+  [TableType.DENSITY]: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO', 'DENSITY_VALUE', 'MEASUREMENT_METHOD'],
+};
+
+// Header aliases applied on import. Aliases are matched after UPPERCASE SNAKE_CASE formatting.
+export const defaultHeaderAliases: HeaderAliasConfig = {
+  global: {
+    SITE_ID: ['HOLEID', 'HOLE_ID', 'SITEID', 'BH_ID', 'BHID', 'BOREHOLE_ID', 'HOLE'],
+    DEPTH_FROM: ['FROM', 'START', 'DEPTH_START'],
+    DEPTH_TO: ['TO', 'END', 'DEPTH_END'],
+  },
+  tables: {},
+};
+
 // Only keep system-critical columns (Keys & Depths) needed for core logic to work.
 // Users will add their own value columns (e.g. Au, Lithology) via the UI or Import.
 export const defaultConfigs: TableConfig[] = [
@@ -44,6 +100,8 @@ export const defaultConfigs: TableConfig[] = [
       { columnName: 'DEPTH_FROM', label: 'Depth From', isSchemaRequired: true, isMandatory: true, type: 'float' },
       { columnName: 'DEPTH_TO', label: 'Depth To', isSchemaRequired: true, isMandatory: true, type: 'float' },
     ],
+    // Logged only where present, so gaps are expected
+    intervalRules: { ...DEFAULT_INTERVAL_RULES, allowGaps: true },
   },
   {
     tableType: TableType.OXIDATION,
@@ -76,6 +134,8 @@ export const defaultConfigs: TableConfig[] = [
       { columnName: 'DEPTH_FROM', label: 'Depth From', isSchemaRequired: true, isMandatory: true, type: 'float' },
       { columnName: 'DEPTH_TO', label: 'Depth To', isSchemaRequired: true, isMandatory: true, type: 'float' },
     ],
+    // Logged only where present, so gaps are expected
+    intervalRules: { ...DEFAULT_INTERVAL_RULES, allowGaps: true },
   },
   {
     tableType: TableType.ALTERATION,
@@ -95,15 +155,7 @@ export const defaultConfigs: TableConfig[] = [
   },
 ];
 
-// Sample Data (Empty)
-export const sampleCollar: CollarRow[] = [];
-export const sampleSurvey: SurveyRow[] = [];
-export const sampleLithology: IntervalRow[] = [];
-export const sampleAssay: IntervalRow[] = [];
-export const sampleMineralization: IntervalRow[] = [];
-export const sampleOxidation: IntervalRow[] = [];
-export const sampleGeotech: IntervalRow[] = [];
-export const sampleRQD: IntervalRow[] = [];
-export const sampleVein: IntervalRow[] = [];
-export const sampleAlteration: IntervalRow[] = [];
-export const sampleDensity: IntervalRow[] = [];
\ No newline at end of file
+// Sample Data (Empty), keyed by table name
+export const sampleTableData: Record<string, any[]> = Object.fromEntries(
+  defaultTableDefinitions.map((t) => [t.name, []])
+);
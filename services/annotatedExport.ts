@@ -0,0 +1,109 @@
+import XLSX, { WorkBook } from 'xlsx-js-style';
+import { ValidationError, ValidationSeverity } from '../types';
+
+// Cell fill per severity (Excel's standard bad / neutral / note colours)
+const SEVERITY_FILL: Record<ValidationSeverity, string> = {
+  [ValidationSeverity.CRITICAL]: 'FFC7CE',
+  [ValidationSeverity.WARNING]: 'FFEB9C',
+  [ValidationSeverity.INFO]: 'DDEBF7',
+};
+
+const SEVERITY_RANK: Record<ValidationSeverity, number> = {
+  [ValidationSeverity.CRITICAL]: 3,
+  [ValidationSeverity.WARNING]: 2,
+  [ValidationSeverity.INFO]: 1,
+};
+
+const worst = (a: ValidationSeverity | undefined, b: ValidationSeverity) =>
+  !a || SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a;
+
+/**
+ * Index errors by the rows they reference. Grouped or duplicate-key errors carry
+ * several comma-separated row IDs; header and hole-level errors have none.
+ */
+const errorsByRow = (errors: ValidationError[]): Map<string, ValidationError[]> => {
+  const map = new Map<string, ValidationError[]>();
+  errors.forEach((err) => {
+    err.rowId
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => id && id !== 'HEADER')
+      .forEach((id) => {
+        const list = map.get(id);
+        if (list) list.push(err);
+        else map.set(id, [err]);
+      });
+  });
+  return map;
+};
+
+/**
+ * Build one sheet per imported table with _QA_STATUS / _QA_MESSAGES columns and
+ * offending cells filled by severity, ready to be fixed and re-uploaded.
+ */
+export const buildAnnotatedWorkbook = (
+  tableData: Record<string, any[]>,
+  errors: ValidationError[]
+): WorkBook => {
+  const wb = XLSX.utils.book_new();
+
+  Object.entries(tableData).forEach(([table, rows]) => {
+    if (rows.length === 0) return;
+
+    const byRow = errorsByRow(errors.filter((e) => e.table === table));
+    const headers = Array.from(new Set(rows.flatMap((r) => Object.keys(r)))).filter((k) => k !== 'id');
+    const allHeaders = [...headers, '_QA_STATUS', '_QA_MESSAGES'];
+
+    const aoa: any[][] = [allHeaders];
+    const fills: { r: number; c: number; severity: ValidationSeverity }[] = [];
+
+    rows.forEach((row, idx) => {
+      const rowErrors = byRow.get(row.id) || [];
+      let status: ValidationSeverity | undefined;
+
+      rowErrors.forEach((err) => {
+        status = worst(status, err.severity);
+        // Composite key errors reference several columns (e.g. SITE_ID+DEPTH_FROM)
+        (err.column || '').split('+').forEach((col) => {
+          const c = headers.indexOf(col);
+          if (c >= 0) fills.push({ r: idx + 1, c, severity: err.severity });
+        });
+      });
+
+      const messages = rowErrors.map((e) => (e.column ? `[${e.column}] ${e.message}` : e.message));
+      aoa.push([
+        ...headers.map((h) => row[h] ?? ''),
+        status || 'OK',
+        messages.join(' | '),
+      ]);
+      if (status) fills.push({ r: idx + 1, c: headers.length, severity: status });
+    });
+
+    const ws = XLSX.utils.aoa_to_sheet(aoa);
+
+    // Bold header row
+    allHeaders.forEach((_, c) => {
+      const cell = ws[XLSX.utils.encode_cell({ r: 0, c })];
+      if (cell) cell.s = { font: { bold: true } };
+    });
+
+    // Apply the most severe fill per cell
+    const cellSeverity = new Map<string, ValidationSeverity>();
+    fills.forEach(({ r, c, severity }) => {
+      const ref = XLSX.utils.encode_cell({ r, c });
+      cellSeverity.set(ref, worst(cellSeverity.get(ref), severity));
+    });
+    cellSeverity.forEach((severity, ref) => {
+      if (!ws[ref]) ws[ref] = { t: 's', v: '' };
+      ws[ref].s = { fill: { patternType: 'solid', fgColor: { rgb: SEVERITY_FILL[severity] } } };
+    });
+
+    XLSX.utils.book_append_sheet(wb, ws, table.slice(0, 31));
+  });
+
+  return wb;
+};
+
+export const writeAnnotatedWorkbook = (wb: WorkBook, fileName: string) => {
+  XLSX.writeFile(wb, fileName);
+};
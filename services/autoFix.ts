@@ -0,0 +1,81 @@
+import { FixPatch, ValidationError } from '../types';
+
+export interface ProposedFix {
+  id: string;          // ID of the finding the fix belongs to
+  table: string;
+  siteId: string;
+  message: string;     // The finding, shown next to the patch
+  description: string;
+  patches: FixPatch[];
+}
+
+export interface FixResult {
+  tableData: Record<string, any[]>;
+  applied: number; // Patches written
+  skipped: number; // Patches whose cell changed since validation
+}
+
+const cellKey = (table: string, rowId: string, column: string) => `${table}|${rowId}|${column}`;
+
+/**
+ * One proposed fix per fixable finding. Pass the per-row (detailed) errors.
+ * A fix touching a cell already patched by an earlier fix is dropped, so the
+ * selection can always be applied together.
+ */
+export const collectFixes = (errors: ValidationError[]): ProposedFix[] => {
+  const claimed = new Set<string>();
+  const fixes: ProposedFix[] = [];
+
+  errors.forEach((err) => {
+    if (!err.fix || err.fix.patches.length === 0) return;
+    const keys = err.fix.patches.map((p) => cellKey(err.table, p.rowId, p.column));
+    if (keys.some((k) => claimed.has(k))) return;
+    keys.forEach((k) => claimed.add(k));
+
+    fixes.push({
+      id: err.id,
+      table: err.table,
+      siteId: err.siteId,
+      message: err.message,
+      description: err.fix.description,
+      patches: err.fix.patches,
+    });
+  });
+
+  return fixes;
+};
+
+/**
+ * Apply fixes to copies of the affected tables; untouched tables keep their arrays.
+ */
+export const applyFixes = (tableData: Record<string, any[]>, fixes: ProposedFix[]): FixResult => {
+  const next = { ...tableData };
+  let applied = 0;
+  let skipped = 0;
+
+  const byTable = new Map<string, FixPatch[]>();
+  fixes.forEach((f) => byTable.set(f.table, [...(byTable.get(f.table) || []), ...f.patches]));
+
+  byTable.forEach((patches, table) => {
+    const byRow = new Map<string, FixPatch[]>();
+    patches.forEach((p) => byRow.set(p.rowId, [...(byRow.get(p.rowId) || []), p]));
+
+    next[table] = (tableData[table] || []).map((row) => {
+      const rowPatches = byRow.get(row.id);
+      if (!rowPatches) return row;
+
+      const patched = { ...row };
+      rowPatches.forEach((p) => {
+        if (row[p.column] !== p.from) {
+          skipped++;
+          return;
+        }
+        patched[p.column] = p.to;
+        applied++;
+      });
+      return patched;
+    });
+  });
+
+  return { tableData: next, applied, skipped };
+};
@@ -0,0 +1,385 @@
+import {
+  CollarRow,
+  IntervalRow,
+  SurveyRow,
+  TableType,
+  ValidationError,
+  ValidationSeverity
+} from '../types';
+import { measurementDepth, parseNumeric } from './validationEngine';
+
+export type DesurveyMethod = 'minimum_curvature' | 'tangential';
+
+export interface DesurveyOptions {
+  method: DesurveyMethod;
+  dipPositiveDown: boolean; // false: -60 means 60° below horizontal (default)
+}
+
+export interface TracePoint {
+  depth: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface DesurveyedInterval {
+  rowId: string;
+  siteId: string;
+  table: string;
+  depthFrom: number;
+  depthTo: number;
+  midDepth: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface OrientedStructure {
+  rowId: string;
+  siteId: string;
+  table: string;
+  depth: number;
+  dip: number;          // True dip of the plane (degrees)
+  dipDirection: number; // Azimuth of the dip (degrees)
+}
+
+export interface DesurveyResult {
+  traces: Record<string, TracePoint[]>;
+  intervals: DesurveyedInterval[];
+  errors: ValidationError[];
+}
+
+export const DEFAULT_DESURVEY_OPTIONS: DesurveyOptions = {
+  method: 'minimum_curvature',
+  dipPositiveDown: false,
+};
+
+type Vector = [number, number, number];
+
+interface Station {
+  depth: number;
+  dir: Vector;
+}
+
+interface HoleTrace {
+  collar: TracePoint;
+  stations: Station[];
+  points: TracePoint[]; // Position at every station
+}
+
+const RAD = Math.PI / 180;
+
+/**
+ * Helper: Unit direction vector (east, north, up) from azimuth/dip in degrees
+ */
+const directionVector = (azimuth: number, dip: number, dipPositiveDown: boolean): Vector => {
+  const inclination = dipPositiveDown ? -dip : dip;
+  return [
+    Math.cos(inclination * RAD) * Math.sin(azimuth * RAD),
+    Math.cos(inclination * RAD) * Math.cos(azimuth * RAD),
+    Math.sin(inclination * RAD),
+  ];
+};
+
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const angleBetween = (a: Vector, b: Vector) => Math.acos(Math.min(1, Math.max(-1, dot(a, b))));
+
+/**
+ * Helper: Spherical interpolation between two unit directions
+ */
+const slerp = (a: Vector, b: Vector, t: number): Vector => {
+  const beta = angleBetween(a, b);
+  if (beta < 1e-9) return a;
+  const wa = Math.sin((1 - t) * beta) / Math.sin(beta);
+  const wb = Math.sin(t * beta) / Math.sin(beta);
+  return [wa * a[0] + wb * b[0], wa * a[1] + wb * b[1], wa * a[2] + wb * b[2]];
+};
+
+/**
+ * Helper: Displacement along a segment of length `md` from direction `a` to `b`
+ */
+const segmentOffset = (a: Vector, b: Vector, md: number, method: DesurveyMethod): Vector => {
+  if (method === 'tangential') {
+    // Tangential method uses the direction at the lower station
+    return [md * b[0], md * b[1], md * b[2]];
+  }
+  const beta = angleBetween(a, b);
+  const rf = beta > 1e-9 ? (2 / beta) * Math.tan(beta / 2) : 1;
+  return [
+    (md / 2) * (a[0] + b[0]) * rf,
+    (md / 2) * (a[1] + b[1]) * rf,
+    (md / 2) * (a[2] + b[2]) * rf,
+  ];
+};
+
+/**
+ * Position at a downhole depth along a computed trace.
+ * Depths above the first or below the last station are extrapolated along the end directions.
+ */
+const positionAt = (trace: HoleTrace, depth: number, method: DesurveyMethod): TracePoint => {
+  const { stations, points } = trace;
+
+  let i = 0;
+  while (i < stations.length - 2 && depth > stations[i + 1].depth) i++;
+
+  const top = stations[i];
+  const bottom = stations[Math.min(i + 1, stations.length - 1)];
+  const start = points[i];
+
+  if (depth >= bottom.depth) {
+    // Below the last station: continue straight
+    const end = points[Math.min(i + 1, points.length - 1)];
+    const md = depth - bottom.depth;
+    return { depth, x: end.x + md * bottom.dir[0], y: end.y + md * bottom.dir[1], z: end.z + md * bottom.dir[2] };
+  }
+
+  const span = bottom.depth - top.depth;
+  const t = span > 0 ? (depth - top.depth) / span : 0;
+  const dir = method === 'tangential' ? bottom.dir : slerp(top.dir, bottom.dir, t);
+  const offset = segmentOffset(top.dir, dir, depth - top.depth, method);
+  return { depth, x: start.x + offset[0], y: start.y + offset[1], z: start.z + offset[2] };
+};
+
+/**
+ * Hole direction (unit vector, down-hole) at a depth along a computed trace
+ */
+const directionAt = (trace: HoleTrace, depth: number, method: DesurveyMethod): Vector => {
+  const { stations } = trace;
+
+  let i = 0;
+  while (i < stations.length - 2 && depth > stations[i + 1].depth) i++;
+
+  const top = stations[i];
+  const bottom = stations[Math.min(i + 1, stations.length - 1)];
+  if (depth >= bottom.depth || method === 'tangential') return bottom.dir;
+
+  const span = bottom.depth - top.depth;
+  return slerp(top.dir, bottom.dir, span > 0 ? Math.max(0, (depth - top.depth) / span) : 0);
+};
+
+const cross = (a: Vector, b: Vector): Vector => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+const normalize = (v: Vector): Vector => {
+  const len = Math.sqrt(dot(v, v));
+  return [v[0] / len, v[1] / len, v[2] / len];
+};
+
+/**
+ * True dip / dip direction of a plane from its alpha/beta angles and the hole
+ * direction. Beta is measured clockwise looking down-hole from the top-of-core
+ * line to the bottom of the ellipse. Returns null for (near-)vertical holes,
+ * which have no top-of-core reference.
+ */
+export const alphaBetaToDipDirection = (
+  holeDir: Vector,
+  alpha: number,
+  beta: number
+): { dip: number; dipDirection: number } | null => {
+  const up: Vector = [0, 0, 1];
+  const axis = normalize(holeDir);
+  const along = dot(up, axis);
+  if (Math.abs(along) > 0.9998) return null;
+
+  const top = normalize([up[0] - along * axis[0], up[1] - along * axis[1], up[2] - along * axis[2]]);
+  const right = cross(axis, top);
+  const ellipseBottom: Vector = [
+    Math.cos(beta * RAD) * top[0] + Math.sin(beta * RAD) * right[0],
+    Math.cos(beta * RAD) * top[1] + Math.sin(beta * RAD) * right[1],
+    Math.cos(beta * RAD) * top[2] + Math.sin(beta * RAD) * right[2],
+  ];
+
+  // Plane normal: alpha from the core axis towards the side opposite the ellipse bottom
+  let normal: Vector = [
+    Math.sin(alpha * RAD) * axis[0] - Math.cos(alpha * RAD) * ellipseBottom[0],
+    Math.sin(alpha * RAD) * axis[1] - Math.cos(alpha * RAD) * ellipseBottom[1],
+    Math.sin(alpha * RAD) * axis[2] - Math.cos(alpha * RAD) * ellipseBottom[2],
+  ];
+  if (normal[2] < 0) normal = [-normal[0], -normal[1], -normal[2]];
+
+  const dip = Math.acos(Math.min(1, normal[2])) / RAD;
+  const dipDirection = dip < 1e-6 ? 0 : ((Math.atan2(normal[0], normal[1]) / RAD) + 360) % 360;
+  return { dip, dipDirection };
+};
+
+/**
+ * Convert alpha/beta measurements to world orientation using each hole's survey.
+ * Rows with missing or out-of-range angles, holes without a collar and
+ * near-vertical holes are skipped.
+ */
+export const orientStructures = (
+  collars: CollarRow[],
+  surveys: SurveyRow[],
+  structureTables: { table: string; rows: any[]; alphaColumn: string; betaColumn: string }[],
+  options: DesurveyOptions = DEFAULT_DESURVEY_OPTIONS
+): OrientedStructure[] => {
+  const surveysBySite: Record<string, SurveyRow[]> = {};
+  surveys.forEach((s) => {
+    if (!surveysBySite[s.SITE_ID]) surveysBySite[s.SITE_ID] = [];
+    surveysBySite[s.SITE_ID].push(s);
+  });
+
+  // Orientation only needs directions, so every trace starts at the origin
+  const holeTraces = new Map<string, HoleTrace>();
+  collars.forEach((c) => {
+    holeTraces.set(c.SITE_ID, buildTrace({ depth: 0, x: 0, y: 0, z: 0 }, surveysBySite[c.SITE_ID] || [], options));
+  });
+
+  const result: OrientedStructure[] = [];
+  structureTables.forEach(({ table, rows, alphaColumn, betaColumn }) => {
+    rows.forEach((row) => {
+      const trace = holeTraces.get(row.SITE_ID);
+      const depth = measurementDepth(row);
+      const alpha = parseNumeric(row[alphaColumn]);
+      const beta = parseNumeric(row[betaColumn]);
+      if (!trace || depth === null || alpha === null || beta === null) return;
+      if (alpha < 0 || alpha > 90 || beta < 0 || beta > 360) return;
+
+      const orientation = alphaBetaToDipDirection(directionAt(trace, depth, options.method), alpha, beta);
+      if (!orientation) return;
+      result.push({ rowId: row.id, siteId: row.SITE_ID, table, depth, ...orientation });
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Build the station trace for one hole. A 0 m station is added using the first
+ * survey's direction when the survey does not start at the collar.
+ */
+const buildTrace = (collar: TracePoint, surveys: SurveyRow[], options: DesurveyOptions): HoleTrace => {
+  const stations: Station[] = surveys
+    .map((s) => ({
+      depth: parseNumeric(s.DEPTH),
+      azimuth: parseNumeric(s.AZIMUTH),
+      dip: parseNumeric(s.DIP),
+    }))
+    .filter((s): s is { depth: number; azimuth: number; dip: number } =>
+      s.depth !== null && s.azimuth !== null && s.dip !== null)
+    .sort((a, b) => a.depth - b.depth)
+    // drop duplicate stations, keeping the first reading
+    .filter((s, idx, arr) => idx === 0 || s.depth !== arr[idx - 1].depth)
+    .map((s) => ({ depth: s.depth, dir: directionVector(s.azimuth, s.dip, options.dipPositiveDown) }));
+
+  if (stations.length === 0 || stations[0].depth > 0) {
+    stations.unshift({ depth: 0, dir: stations[0]?.dir || directionVector(0, options.dipPositiveDown ? 90 : -90, options.dipPositiveDown) });
+  }
+
+  const points: TracePoint[] = [{ ...collar, depth: stations[0].depth }];
+  for (let i = 1; i < stations.length; i++) {
+    const prev = points[i - 1];
+    const offset = segmentOffset(stations[i - 1].dir, stations[i].dir, stations[i].depth - stations[i - 1].depth, options.method);
+    points.push({ depth: stations[i].depth, x: prev.x + offset[0], y: prev.y + offset[1], z: prev.z + offset[2] });
+  }
+
+  return { collar, stations, points };
+};
+
+/**
+ * Desurvey every hole and compute midpoint coordinates for interval rows.
+ * Flags collars without usable X/Y/Z, holes without a survey (assumed vertical)
+ * and traces whose end point lies above the collar elevation. Findings name the
+ * registry's collar and survey tables.
+ */
+export const desurvey = (
+  collars: CollarRow[],
+  surveys: SurveyRow[],
+  intervalTables: { table: string; rows: IntervalRow[] }[],
+  options: DesurveyOptions = DEFAULT_DESURVEY_OPTIONS,
+  tableNames: { collar: string; survey: string } = { collar: TableType.COLLAR, survey: TableType.SURVEY }
+): DesurveyResult => {
+  const errors: ValidationError[] = [];
+  const holeTraces = new Map<string, HoleTrace>();
+  const traces: Record<string, TracePoint[]> = {};
+
+  const surveysBySite: Record<string, SurveyRow[]> = {};
+  surveys.forEach((s) => {
+    if (!surveysBySite[s.SITE_ID]) surveysBySite[s.SITE_ID] = [];
+    surveysBySite[s.SITE_ID].push(s);
+  });
+
+  collars.forEach((c) => {
+    const x = parseNumeric(c.X);
+    const y = parseNumeric(c.Y);
+    const z = parseNumeric(c.Z);
+
+    if (x === null || y === null || z === null) {
+      errors.push({
+        id: `dsnocoord-${c.id}`,
+        table: tableNames.collar,
+        rowId: c.id,
+        siteId: c.SITE_ID,
+        column: x === null ? 'X' : y === null ? 'Y' : 'Z',
+        message: `Missing Coordinates: Collar has no usable X/Y/Z (${[c.X, c.Y, c.Z].map((v) => (v === undefined || v === null || v === '' ? '-' : v)).join(', ')}); hole cannot be desurveyed.`,
+        severity: ValidationSeverity.CRITICAL,
+        type: 'VALUE',
+      });
+      return;
+    }
+
+    const holeSurveys = surveysBySite[c.SITE_ID] || [];
+    if (holeSurveys.length === 0) {
+      errors.push({
+        id: `dsnosurv-${c.id}`,
+        table: tableNames.survey,
+        rowId: '',
+        siteId: c.SITE_ID,
+        message: `No Survey: hole has no survey stations and was desurveyed as vertical.`,
+        severity: ValidationSeverity.INFO,
+        type: 'LOGIC',
+      });
+    }
+
+    const trace = buildTrace({ depth: 0, x, y, z }, holeSurveys, options);
+    holeTraces.set(c.SITE_ID, trace);
+
+    const endDepth = parseNumeric(c.END_DEPTH);
+    const lastDepth = trace.stations[trace.stations.length - 1].depth;
+    const end = positionAt(trace, endDepth !== null && endDepth > lastDepth ? endDepth : lastDepth, options.method);
+    traces[c.SITE_ID] = endDepth !== null && endDepth > lastDepth ? [...trace.points, end] : trace.points;
+
+    if (end.z > z) {
+      errors.push({
+        id: `dsabove-${c.id}`,
+        table: tableNames.survey,
+        rowId: '',
+        siteId: c.SITE_ID,
+        column: 'DIP',
+        message: `Trace Above Collar: end of hole (Z ${end.z.toFixed(2)}) is above collar elevation (Z ${z}). Check DIP sign convention.`,
+        severity: ValidationSeverity.CRITICAL,
+        type: 'LOGIC',
+      });
+    }
+  });
+
+  const intervals: DesurveyedInterval[] = [];
+  intervalTables.forEach(({ table, rows }) => {
+    rows.forEach((row) => {
+      const trace = holeTraces.get(row.SITE_ID);
+      const from = parseNumeric(row.DEPTH_FROM);
+      const to = parseNumeric(row.DEPTH_TO);
+      if (!trace || from === null || to === null) return;
+
+      const midDepth = (from + to) / 2;
+      const pos = positionAt(trace, midDepth, options.method);
+      intervals.push({
+        rowId: row.id,
+        siteId: row.SITE_ID,
+        table,
+        depthFrom: from,
+        depthTo: to,
+        midDepth,
+        x: pos.x,
+        y: pos.y,
+        z: pos.z,
+      });
+    });
+  });
+
+  return { traces, intervals, errors };
+};
@@ -0,0 +1,57 @@
+import { safeSiteId } from './validationEngine';
+
+// One undoable change: rows of the affected tables before and after
+export interface TableEdit {
+  label: string; // e.g. "Edit AU_PPM", "Delete row", "Apply 12 fixes"
+  before: Record<string, any[]>;
+  after: Record<string, any[]>;
+}
+
+export interface EditHistory {
+  past: TableEdit[];
+  future: TableEdit[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const MAX_HISTORY = 100;
+
+export const recordEdit = (history: EditHistory, edit: TableEdit): EditHistory => ({
+  past: [...history.past, edit].slice(-MAX_HISTORY),
+  future: [],
+});
+
+export const undoEdit = (history: EditHistory): EditHistory =>
+  history.past.length === 0
+    ? history
+    : { past: history.past.slice(0, -1), future: [history.past[history.past.length - 1], ...history.future] };
+
+export const redoEdit = (history: EditHistory): EditHistory =>
+  history.future.length === 0
+    ? history
+    : { past: [...history.past, history.future[0]], future: history.future.slice(1) };
+
+/**
+ * Sites whose rows differ between two versions of the tables. Rows are updated
+ * immutably, so a changed row is a different object; an edited SITE_ID marks
+ * both the old and the new site.
+ */
+export const changedSiteIds = (before: Record<string, any[]>, after: Record<string, any[]>): string[] => {
+  const sites = new Set<string>();
+
+  Object.keys({ ...before, ...after }).forEach((table) => {
+    const oldRows = before[table] || [];
+    const newRows = after[table] || [];
+    const oldById = new Map(oldRows.map((r) => [r.id, r]));
+    const newById = new Map(newRows.map((r) => [r.id, r]));
+
+    oldRows.forEach((r) => {
+      if (newById.get(r.id) !== r) sites.add(safeSiteId(r));
+    });
+    newRows.forEach((r) => {
+      if (oldById.get(r.id) !== r) sites.add(safeSiteId(r));
+    });
+  });
+
+  return Array.from(sites);
+};
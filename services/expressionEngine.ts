@@ -0,0 +1,445 @@
+import { parseNumeric } from './validationEngine';
+
+/**
+ * Small sandboxed expression language for custom row rules. Expressions are
+ * tokenized and parsed into a tree, then evaluated against one row at a time;
+ * nothing is ever passed to eval or Function.
+ *
+ *   AU_PPM <= 500 or LAB_JOB_NO != ''
+ *   DEPTH_TO - DEPTH_FROM <= 2.0
+ *   SUM(PCT_*) <= 100
+ *
+ * Operators: or, and, not (also ||, &&, !), = == != <> < <= > >=, + - * / %
+ * Identifiers are column names; PREFIX_* as an argument of SUM, AVG, MIN, MAX or
+ * COUNT expands to every column starting with PREFIX_. Blank or non-numeric operands make arithmetic and
+ * ordering comparisons unknown, and an unknown result never fails a rule
+ * (missing values are the mandatory check's job).
+ */
+
+export type ExpressionValue = number | string | boolean | null;
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'column'; name: string }
+  | { kind: 'wildcard'; prefix: string }
+  | { kind: 'unary'; op: 'not' | '-'; operand: ExpressionNode }
+  | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export class ExpressionError extends Error {}
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'wildcard'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number };
+
+// Function name -> [min args, max args]
+const FUNCTIONS: Record<string, [number, number]> = {
+  SUM: [1, Infinity],
+  AVG: [1, Infinity],
+  MIN: [1, Infinity],
+  MAX: [1, Infinity],
+  COUNT: [1, Infinity],
+  ABS: [1, 1],
+  ROUND: [1, 2],
+  LEN: [1, 1],
+  ISEMPTY: [1, 1],
+  ISNUMBER: [1, 1],
+  IF: [3, 3],
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// Only these expand PREFIX_* arguments; anywhere else a wildcard has no value
+const AGGREGATE_FUNCTIONS = new Set(['SUM', 'AVG', 'MIN', 'MAX', 'COUNT']);
+
+// Longest first so '<=' is not read as '<'
+const OPERATORS = ['==', '!=', '<>', '<=', '>=', '&&', '||', '=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ','];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const numberMatch = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(source.slice(i));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: parseFloat(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = source.indexOf(ch, i + 1);
+      if (end < 0) throw new ExpressionError(`Unterminated string starting at position ${i + 1}.`);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identMatch) {
+      const name = identMatch[0];
+      const next = i + name.length;
+      // PCT_* directly followed by ',' or ')' is a column wildcard, not multiplication
+      if (source[next] === '*' && /^\s*[,)]/.test(source.slice(next + 1))) {
+        tokens.push({ type: 'wildcard', value: name.toUpperCase(), pos: i });
+        i = next + 1;
+      } else {
+        tokens.push({ type: 'ident', value: name, pos: i });
+        i = next;
+      }
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw new ExpressionError(`Unexpected character '${ch}' at position ${i + 1}.`);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse an expression into a tree. Throws ExpressionError with a readable
+ * message on any syntax error, unknown function or wrong argument count.
+ */
+export const parseExpression = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const describe = (t: Token | undefined) => (t ? `'${t.value}' at position ${t.pos + 1}` : 'end of expression');
+  const isKeyword = (t: Token | undefined, word: string) =>
+    t?.type === 'ident' && t.value.toLowerCase() === word;
+  const isOp = (t: Token | undefined, ...ops: string[]) => t?.type === 'op' && ops.includes(t.value);
+  const expectOp = (op: string) => {
+    if (!isOp(peek(), op)) throw new ExpressionError(`Expected '${op}' but found ${describe(peek())}.`);
+    pos++;
+  };
+
+  const parseOr = (): ExpressionNode => {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'or') || isOp(peek(), '||')) {
+      pos++;
+      left = { kind: 'binary', op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let left = parseNot();
+    while (isKeyword(peek(), 'and') || isOp(peek(), '&&')) {
+      pos++;
+      left = { kind: 'binary', op: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ExpressionNode => {
+    if (isKeyword(peek(), 'not') || isOp(peek(), '!')) {
+      pos++;
+      return { kind: 'unary', op: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    const left = parseAdditive();
+    const t = peek();
+    if (isOp(t, '=', '==', '!=', '<>', '<', '<=', '>', '>=')) {
+      pos++;
+      const op = t!.value === '==' ? '=' : t!.value === '<>' ? '!=' : (t!.value as string);
+      return { kind: 'binary', op, left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): ExpressionNode => {
+    let left = parseMultiplicative();
+    while (isOp(peek(), '+', '-')) {
+      const op = tokens[pos++].value as string;
+      left = { kind: 'binary', op, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): ExpressionNode => {
+    let left = parseUnary();
+    while (isOp(peek(), '*', '/', '%')) {
+      const op = tokens[pos++].value as string;
+      left = { kind: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isOp(peek(), '-')) {
+      pos++;
+      return { kind: 'unary', op: '-', operand: parseUnary() };
+    }
+    if (isOp(peek(), '+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePrimary(false);
+  };
+
+  const parseArgument = (fn: string): ExpressionNode => {
+    const t = peek();
+    if (t?.type === 'wildcard') {
+      if (!AGGREGATE_FUNCTIONS.has(fn)) {
+        throw new ExpressionError(`Wildcard ${t.value}* can only be used in ${[...AGGREGATE_FUNCTIONS].join(', ')}, not ${fn}.`);
+      }
+      return parsePrimary(true);
+    }
+    return parseOr();
+  };
+
+  const parsePrimary = (allowWildcard: boolean): ExpressionNode => {
+    const t = peek();
+    if (!t) throw new ExpressionError('Unexpected end of expression.');
+
+    if (t.type === 'number' || t.type === 'string') {
+      pos++;
+      return { kind: 'literal', value: t.value };
+    }
+    if (t.type === 'wildcard') {
+      if (!allowWildcard) throw new ExpressionError(`Wildcard ${t.value}* can only be used inside an aggregate function, e.g. SUM(${t.value}*).`);
+      pos++;
+      return { kind: 'wildcard', prefix: t.value };
+    }
+    if (isOp(t, '(')) {
+      pos++;
+      const inner = parseOr();
+      expectOp(')');
+      return inner;
+    }
+    if (t.type === 'ident') {
+      pos++;
+      const word = t.value.toLowerCase();
+      if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' };
+      if (word === 'null') return { kind: 'literal', value: null };
+
+      if (isOp(peek(), '(')) {
+        const name = t.value.toUpperCase();
+        const arity = FUNCTIONS[name];
+        if (!arity) throw new ExpressionError(`Unknown function '${t.value}'. Available: ${EXPRESSION_FUNCTIONS.join(', ')}.`);
+        pos++;
+        const args: ExpressionNode[] = [];
+        if (!isOp(peek(), ')')) {
+          args.push(parseArgument(name));
+          while (isOp(peek(), ',')) {
+            pos++;
+            args.push(parseArgument(name));
+          }
+        }
+        expectOp(')');
+        if (args.length < arity[0] || args.length > arity[1]) {
+          throw new ExpressionError(`${name} takes ${arity[0] === arity[1] ? arity[0] : `${arity[0]}${arity[1] === Infinity ? ' or more' : `-${arity[1]}`}`} argument(s), got ${args.length}.`);
+        }
+        return { kind: 'call', name, args };
+      }
+      return { kind: 'column', name: t.value.toUpperCase() };
+    }
+    throw new ExpressionError(`Unexpected ${describe(t)}.`);
+  };
+
+  if (tokens.length === 0) throw new ExpressionError('Expression is empty.');
+  const tree = parseOr();
+  if (pos < tokens.length) throw new ExpressionError(`Unexpected ${describe(peek())}.`);
+  return tree;
+};
+
+/**
+ * Columns (and PREFIX_* wildcards) an expression references, in order of appearance
+ */
+export const expressionColumns = (node: ExpressionNode): string[] => {
+  const found: string[] = [];
+  const walk = (n: ExpressionNode) => {
+    if (n.kind === 'column') found.push(n.name);
+    else if (n.kind === 'wildcard') found.push(`${n.prefix}*`);
+    else if (n.kind === 'unary') walk(n.operand);
+    else if (n.kind === 'binary') { walk(n.left); walk(n.right); }
+    else if (n.kind === 'call') n.args.forEach(walk);
+  };
+  walk(node);
+  return Array.from(new Set(found));
+};
+
+/**
+ * Helper: Columns of a row matching a PREFIX_* wildcard
+ */
+export const matchWildcard = (row: any, prefix: string): string[] =>
+  Object.keys(row).filter((k) => k !== 'id' && k.startsWith(prefix)).sort();
+
+// Row value as seen by expressions: numbers where numeric, trimmed text otherwise, '' when blank
+const readColumn = (row: any, name: string): ExpressionValue => {
+  const raw = row[name];
+  if (raw === undefined || raw === null) return '';
+  if (typeof raw === 'number' || typeof raw === 'boolean') return raw;
+  const text = String(raw).trim();
+  if (text === '') return '';
+  const numeric = parseNumeric(text);
+  return numeric !== null ? numeric : text;
+};
+
+const toNumber = (v: ExpressionValue): number | null => {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  if (typeof v === 'string') return parseNumeric(v);
+  return null;
+};
+
+const isBlankValue = (v: ExpressionValue) => v === null || v === '';
+
+// Three-valued truth: null means unknown
+const toBool = (v: ExpressionValue): boolean | null => {
+  if (v === null) return null;
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'number') return v !== 0;
+  return v !== '';
+};
+
+const compare = (op: string, a: ExpressionValue, b: ExpressionValue): boolean | null => {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+
+  if (op === '=' || op === '!=') {
+    let equal: boolean;
+    if (na !== null && nb !== null) equal = Math.abs(na - nb) < 1e-9;
+    else if (typeof a === 'boolean' || typeof b === 'boolean') equal = toBool(a) === toBool(b);
+    else equal = String(a ?? '').trim().toUpperCase() === String(b ?? '').trim().toUpperCase();
+    return op === '=' ? equal : !equal;
+  }
+
+  if (na === null || nb === null) return null;
+  switch (op) {
+    case '<': return na < nb;
+    case '<=': return na <= nb;
+    case '>': return na > nb;
+    case '>=': return na >= nb;
+  }
+  return null;
+};
+
+/**
+ * Evaluate a parsed expression against one row
+ */
+export const evaluateExpression = (node: ExpressionNode, row: any): ExpressionValue => {
+  const evaluate = (n: ExpressionNode): ExpressionValue => evaluateExpression(n, row);
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'column':
+      return readColumn(row, node.name);
+    case 'wildcard':
+      // Only reachable inside functions, which expand wildcards themselves
+      return null;
+    case 'unary': {
+      const value = evaluate(node.operand);
+      if (node.op === 'not') {
+        const b = toBool(value);
+        return b === null ? null : !b;
+      }
+      const num = toNumber(value);
+      return num === null ? null : -num;
+    }
+    case 'binary': {
+      if (node.op === 'and' || node.op === 'or') {
+        const left = toBool(evaluate(node.left));
+        const right = toBool(evaluate(node.right));
+        if (node.op === 'and') {
+          if (left === false || right === false) return false;
+          return left === null || right === null ? null : true;
+        }
+        if (left === true || right === true) return true;
+        return left === null || right === null ? null : false;
+      }
+
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      if (['=', '!=', '<', '<=', '>', '>='].includes(node.op)) return compare(node.op, left, right);
+
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b === 0 ? null : a / b;
+        case '%': return b === 0 ? null : a % b;
+      }
+      return null;
+    }
+    case 'call':
+      return callFunction(node.name, node.args, row);
+  }
+};
+
+const callFunction = (name: string, args: ExpressionNode[], row: any): ExpressionValue => {
+  // Aggregates accept wildcards (the parser rejects them elsewhere), which expand to every matching column
+  const expand = (): ExpressionValue[] =>
+    args.flatMap((arg) =>
+      arg.kind === 'wildcard'
+        ? matchWildcard(row, arg.prefix).map((col) => readColumn(row, col))
+        : [evaluateExpression(arg, row)]
+    );
+
+  switch (name) {
+    case 'SUM':
+    case 'AVG':
+    case 'MIN':
+    case 'MAX': {
+      const nums = expand().map(toNumber).filter((v): v is number => v !== null);
+      if (name === 'SUM') return nums.reduce((sum, v) => sum + v, 0);
+      if (nums.length === 0) return null;
+      if (name === 'AVG') return nums.reduce((sum, v) => sum + v, 0) / nums.length;
+      return name === 'MIN' ? Math.min(...nums) : Math.max(...nums);
+    }
+    case 'COUNT':
+      return expand().filter((v) => !isBlankValue(v)).length;
+    case 'ABS': {
+      const num = toNumber(evaluateExpression(args[0], row));
+      return num === null ? null : Math.abs(num);
+    }
+    case 'ROUND': {
+      const num = toNumber(evaluateExpression(args[0], row));
+      const places = args[1] ? toNumber(evaluateExpression(args[1], row)) : 0;
+      if (num === null || places === null) return null;
+      const factor = Math.pow(10, Math.round(places));
+      return Math.round(num * factor) / factor;
+    }
+    case 'LEN': {
+      const value = evaluateExpression(args[0], row);
+      return isBlankValue(value) ? 0 : String(value).length;
+    }
+    case 'ISEMPTY':
+      return isBlankValue(evaluateExpression(args[0], row));
+    case 'ISNUMBER':
+      return toNumber(evaluateExpression(args[0], row)) !== null;
+    case 'IF': {
+      const condition = toBool(evaluateExpression(args[0], row));
+      return condition ? evaluateExpression(args[1], row) : evaluateExpression(args[2], row);
+    }
+  }
+  return null;
+};
+
+/**
+ * Fill a message template: {COLUMN} is replaced with the row's value
+ */
+export const renderMessageTemplate = (template: string, row: any): string =>
+  template.replace(/\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const value = row[name.toUpperCase()];
+    return value === undefined || value === null || value === '' ? '(empty)' : String(value);
+  });
@@ -0,0 +1,83 @@
+import { HeaderAliasConfig, HeaderAliasMap } from '../types';
+
+export interface HeaderMapping {
+  source: string;     // Header as it appeared in the file
+  canonical: string;  // Column name used by the engine
+  rule: 'table' | 'global' | 'format'; // Which alias set (if any) matched
+}
+
+export interface NormalizedImport {
+  rows: any[];
+  mapping: HeaderMapping[];
+}
+
+// Reserved internal key: file columns called ID are renamed so they never clash with row.id
+const RESERVED_ID_HEADERS = ['ID', 'RECORD_ID'];
+
+/**
+ * Standardize a header to UPPERCASE SNAKE_CASE
+ * e.g. "Hole ID" -> "HOLE_ID", "Au (ppm)" -> "AU_PPM"
+ */
+export const formatHeader = (header: string): string => {
+  return header.toUpperCase().trim()
+    .replace(/[\s\(\)\.]+/g, '_') // Replace spaces, brackets, dots with underscore
+    .replace(/_+$/, '');          // Remove trailing underscores
+};
+
+/**
+ * Helper: Find the canonical column for a formatted header in an alias map
+ */
+const findCanonical = (formatted: string, aliases?: HeaderAliasMap): string | undefined => {
+  if (!aliases) return undefined;
+  return Object.keys(aliases).find((canonical) =>
+    aliases[canonical].some((alias) => formatHeader(alias) === formatted)
+  );
+};
+
+/**
+ * Resolve one raw header: table aliases win over global aliases
+ */
+export const resolveHeader = (
+  header: string,
+  aliases: HeaderAliasConfig,
+  tableType?: string
+): HeaderMapping => {
+  const formatted = formatHeader(header);
+
+  const tableMatch = tableType ? findCanonical(formatted, aliases.tables[tableType]) : undefined;
+  if (tableMatch) return { source: header, canonical: tableMatch, rule: 'table' };
+
+  const globalMatch = findCanonical(formatted, aliases.global);
+  if (globalMatch) return { source: header, canonical: globalMatch, rule: 'global' };
+
+  if (RESERVED_ID_HEADERS.includes(formatted)) return { source: header, canonical: 'ROW_ID', rule: 'format' };
+
+  return { source: header, canonical: formatted, rule: 'format' };
+};
+
+/**
+ * Normalize imported rows to canonical headers and report how each header was mapped
+ */
+export const normalizeHeaders = (
+  data: any[],
+  aliases: HeaderAliasConfig,
+  tableType?: string
+): NormalizedImport => {
+  if (data.length === 0) return { rows: [], mapping: [] };
+
+  const headers = Array.from(new Set(data.flatMap((row) => Object.keys(row))));
+  const mapping = headers.map((h) => resolveHeader(h, aliases, tableType));
+  const lookup = new Map(mapping.map((m) => [m.source, m.canonical]));
+
+  const rows = data.map((row) => {
+    const newRow: any = {};
+    Object.keys(row).forEach((key) => {
+      newRow[lookup.get(key) || key] = row[key];
+    });
+    // Ensure every row has a unique internal ID for React keys and validation references
+    if (!newRow.id) newRow.id = Math.random().toString(36).substr(2, 9);
+    return newRow;
+  });
+
+  return { rows, mapping };
+};
@@ -0,0 +1,301 @@
+import XLSX, { WorkBook } from 'xlsx-js-style';
+import {
+  CodeLibrary,
+  TableConfig,
+  TableDefinition,
+  ValidationError,
+  ValidationRunMeta,
+  ValidationSeverity,
+  ValidationSummary
+} from '../types';
+import {
+  CROSS_TABLE_RULE_LABELS,
+  DEFAULT_INTERVAL_RULES,
+  DEFAULT_POINT_RULES,
+  DEFAULT_SURVEY_RULES,
+  describeConditionalRule
+} from './validationEngine';
+import { defaultKeyReference, getCollarTable } from './tableRegistry';
+
+const SEVERITY_ORDER = [ValidationSeverity.CRITICAL, ValidationSeverity.WARNING, ValidationSeverity.INFO];
+
+/**
+ * Describe every rule the engine applies for the given configuration, one line each
+ */
+export const describeRules = (
+  tables: TableDefinition[],
+  configs: TableConfig[],
+  libraries: CodeLibrary[]
+): string[] => {
+  const rules: string[] = [];
+  // Hole-based checks run against whichever table the registry marks as collar
+  const collarTable = getCollarTable(tables);
+  const collar = collarTable ? `${collarTable.label} (${collarTable.name})` : 'collar table (none registered)';
+  const endDepth = `${collarTable?.name || 'collar'} END_DEPTH`;
+
+  tables.forEach((table) => {
+    const config = configs.find((c) => c.tableType === table.name);
+    if (!config) return;
+    const t = table.name;
+    const required = config.columns.filter((c) => c.isSchemaRequired).map((c) => c.columnName);
+    const mandatory = config.columns.filter((c) => c.isMandatory).map((c) => c.columnName);
+    const numeric = config.columns.filter((c) => c.type !== 'string').map((c) => c.columnName);
+
+    const requiredHeaders = Array.from(new Set([...table.keyColumns, ...required]));
+    if (requiredHeaders.length > 0) rules.push(`${t}: required headers ${requiredHeaders.join(', ')}`);
+    if (mandatory.length > 0) rules.push(`${t}: no empty values in ${mandatory.join(', ')}`);
+    if (numeric.length > 0) rules.push(`${t}: numeric type check on ${numeric.join(', ')}`);
+
+    config.columns.forEach((col) => {
+      const v = col.validation;
+      if (v?.range) {
+        rules.push(`${t}.${col.columnName}: range ${v.range.min ?? '-∞'} to ${v.range.max ?? '∞'} (${v.range.strict ? 'critical' : 'warning'})`);
+      }
+      if (v?.lookup) {
+        const lib = libraries.find((l) => l.id === v.lookup!.libraryId);
+        rules.push(`${t}.${col.columnName}: lookup in '${lib?.name || v.lookup.libraryId}'${v.lookup.caseSensitive ? ' (case sensitive)' : ''}${v.lookup.parentColumn ? `, child of ${v.lookup.parentColumn}` : ''}${v.lookup.dateColumn ? `, valid on ${v.lookup.dateColumn}` : ''}, deprecated codes warned`);
+      }
+      if (v?.isKeyReference) {
+        const ref = v.keyReference || defaultKeyReference(tables);
+        rules.push(`${t}.${col.columnName}: key reference to ${ref.tableType}.${ref.columnName}`);
+      }
+      if (col.specialValues) {
+        const codes = col.specialValues.sentinels.map((s) => s.code).join(', ') || 'none';
+        rules.push(`${t}.${col.columnName}: detection limits '${col.specialValues.belowPrefix}'/'${col.specialValues.abovePrefix}', sentinel codes ${codes}`);
+      }
+    });
+
+    const uniqueKeys = [...(config.uniqueKeys || [])];
+    const builtInKey = table.keyColumns.join('+');
+    if ((table.kind === 'collar' || table.kind === 'free') && builtInKey && !uniqueKeys.some((k) => k.join('+') === builtInKey)) {
+      uniqueKeys.unshift(table.keyColumns);
+    }
+    uniqueKeys.forEach((k) => rules.push(`${t}: unique key ${k.join(' + ')}`));
+    (config.conditionalRules || []).forEach((r) => {
+      const severity = r.requirement === 'not_required' ? '' : ` (${r.severity.toLowerCase()})`;
+      rules.push(`${t}: ${describeConditionalRule(r)}${severity}`);
+    });
+    (config.expressionRules || []).forEach((r) => {
+      rules.push(`${t}: expression ${r.expression} (${r.severity.toLowerCase()})`);
+    });
+    (config.compositionRules || []).forEach((r) => {
+      rules.push(`${t}: ${r.columns.join(' + ')} ${r.mode === 'equals_100' ? '= 100%' : '<= 100%'}${r.tolerance > 0 ? ` (±${r.tolerance})` : ''}${r.acrossRows ? ' per interval across rows' : ''} (${r.severity.toLowerCase()})`);
+    });
+    if (config.qaqcRules) {
+      const q = config.qaqcRules;
+      rules.push(`${t}: QAQC standards within ±2SD (warning) / ±3SD (critical) by ${q.standardColumn}`);
+      rules.push(`${t}: QAQC blanks <= ${q.blankMultiple}x detection limit, duplicate RPD <= ${q.maxDuplicateRPD}% (${q.elements.map((e) => e.column).join(', ') || 'no elements'})`);
+      rules.push(`${t}: QAQC insertion rate per ${q.batchColumn}${q.minInsertionRate > 0 ? ` >= ${q.minInsertionRate}%` : ''}`);
+    }
+
+    if (table.kind === 'collar') {
+      rules.push(`${t}: END_DEPTH greater than zero`);
+    } else if (table.kind === 'survey') {
+      const survey = { ...DEFAULT_SURVEY_RULES, ...config.surveyRules };
+      rules.push(`${t}: orphan check against ${collar}, depth within ${endDepth}`);
+      rules.push(`${t}: duplicate stations, dogleg severity <= ${survey.maxDoglegPer30m}°/30m${survey.requireCollarStation ? ', collar station required' : ''}`);
+    } else if (table.kind === 'interval') {
+      const interval = { ...DEFAULT_INTERVAL_RULES, ...config.intervalRules };
+      rules.push(`${t}: orphan check against ${collar}, ${endDepth}${interval.allowGaps ? '' : ' coverage'} (tolerance ${interval.eohTolerance} m), zero-length/inverted intervals`);
+      rules.push(`${t}: ${interval.allowGaps ? 'gaps allowed' : `gaps > ${interval.gapTolerance} m (${interval.gapSeverity.toLowerCase()})`}, ${interval.allowOverlaps ? 'overlaps allowed' : `overlaps > ${interval.overlapTolerance} m (${interval.overlapSeverity.toLowerCase()})`}`);
+      if (interval.minLength > 0) rules.push(`${t}: interval length >= ${interval.minLength} m (${interval.minLengthSeverity.toLowerCase()})`);
+      if (interval.maxLength > 0) rules.push(`${t}: interval length <= ${interval.maxLength} m (${interval.maxLengthSeverity.toLowerCase()})`);
+      (config.crossTableRules || []).forEach((r) => {
+        rules.push(`${t}: ${CROSS_TABLE_RULE_LABELS[r.type].toLowerCase()} ${r.targetTable} (${r.severity.toLowerCase()})`);
+      });
+      if (config.geotechRules) {
+        const g = config.geotechRules;
+        const checks = [
+          g.checkRqdWithinRecovery && `${g.rqdColumn} <= ${g.recoveryColumn}`,
+          g.checkRecoveryRange && `${g.recoveryColumn} within ${g.recoveryUnit === 'metres' ? 'run length' : '0-100%'}`,
+          g.checkRqdVsFracture && `${g.rqdColumn} vs ${g.fractureColumn} (±${g.fractureTolerance}%)`,
+          g.checkRunAlignment && g.pairedTable && `runs line up with ${g.pairedTable} (±${g.alignmentTolerance} m)`,
+        ].filter(Boolean);
+        if (checks.length > 0) rules.push(`${t}: geotech ${checks.join(', ')} (${g.severity.toLowerCase()})`);
+      }
+    } else if (table.kind === 'point') {
+      const point = { ...DEFAULT_POINT_RULES, ...config.pointRules };
+      rules.push(`${t}: orphan check against ${collar}, depth within 0..${endDepth}`);
+      rules.push(`${t}: ${point.allowDuplicateDepths ? 'duplicate depths allowed' : 'no duplicate depths'}${point.minSpacing > 0 ? `, minimum spacing ${point.minSpacing} m` : ''}`);
+    }
+
+    if ((table.kind === 'interval' || table.kind === 'point') && config.structureRules) {
+      const s = config.structureRules;
+      rules.push(`${t}: ${s.alphaColumn} 0-90°, ${s.betaColumn} 0-360°${s.maxStationDistance > 0 ? `, survey station within ${s.maxStationDistance} m (${s.severity.toLowerCase()})` : ''}`);
+    }
+  });
+
+  return rules;
+};
+
+/**
+ * Metadata recorded with every exported report
+ */
+export const buildRunMeta = (
+  tableData: Record<string, any[]>,
+  tables: TableDefinition[],
+  configs: TableConfig[],
+  libraries: CodeLibrary[],
+  configVersion: string
+): ValidationRunMeta => ({
+  timestamp: new Date().toISOString(),
+  configVersion,
+  rowCounts: Object.fromEntries(tables.map((t) => [t.name, (tableData[t.name] || []).length])),
+  rulesApplied: describeRules(tables, configs, libraries),
+});
+
+const toRecord = (err: ValidationError) => ({
+  SEVERITY: err.severity,
+  TABLE: err.table,
+  TYPE: err.type,
+  SITE_ID: err.siteId,
+  ROW_IDS: err.rowId,
+  COLUMN: err.column || '',
+  VALUE: err.value ?? '',
+  MESSAGE: err.message,
+  ERROR_ID: err.id,
+});
+
+const sortBySeverity = (errors: ValidationError[]) =>
+  [...errors].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+const countBy = (errors: ValidationError[], table: string, severity: ValidationSeverity) =>
+  errors.filter((e) => e.table === table && e.severity === severity).length;
+
+/**
+ * Summary rows: run metadata followed by row and issue counts per table
+ */
+const summaryRows = (summary: ValidationSummary): (string | number)[][] => {
+  const meta = summary.meta;
+  const tables = Array.from(new Set([...Object.keys(meta?.rowCounts || {}), ...summary.errors.map((e) => e.table)]));
+
+  return [
+    ['Drillhole Validation Report'],
+    ['Run Timestamp', meta?.timestamp || ''],
+    ['Config Version', meta?.configVersion || ''],
+    ['Critical Errors', summary.totalErrors],
+    ['Warnings', summary.totalWarnings],
+    [],
+    ['Table', 'Rows', 'Critical', 'Warning', 'Info'],
+    ...tables.map((t) => [
+      t,
+      meta?.rowCounts[t] ?? '',
+      countBy(summary.errors, t, ValidationSeverity.CRITICAL),
+      countBy(summary.errors, t, ValidationSeverity.WARNING),
+      countBy(summary.errors, t, ValidationSeverity.INFO),
+    ]),
+  ];
+};
+
+/**
+ * Multi-sheet workbook: Summary, Rules and one sheet of issues per table
+ */
+export const buildReportWorkbook = (summary: ValidationSummary): WorkBook => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summaryRows(summary)), 'Summary');
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([['Rules Applied'], ...(summary.meta?.rulesApplied || []).map((r) => [r])]),
+    'Rules'
+  );
+
+  const tables = Array.from(new Set(summary.errors.map((e) => e.table)));
+  tables.forEach((table) => {
+    const rows = sortBySeverity(summary.errors.filter((e) => e.table === table)).map(toRecord);
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), table.slice(0, 31));
+  });
+
+  return wb;
+};
+
+/**
+ * Flat CSV of every issue. Metadata is written as leading comment lines.
+ */
+export const buildReportCsv = (summary: ValidationSummary): string => {
+  const meta = summary.meta;
+  const header = meta
+    ? [
+        `# Run Timestamp: ${meta.timestamp}`,
+        `# Config Version: ${meta.configVersion}`,
+        `# Row Counts: ${Object.entries(meta.rowCounts).map(([t, n]) => `${t}=${n}`).join('; ')}`,
+      ].join('\n') + '\n'
+    : '';
+  const sheet = XLSX.utils.json_to_sheet(sortBySeverity(summary.errors).map(toRecord), {
+    header: ['SEVERITY', 'TABLE', 'TYPE', 'SITE_ID', 'ROW_IDS', 'COLUMN', 'VALUE', 'MESSAGE', 'ERROR_ID'],
+  });
+  return header + XLSX.utils.sheet_to_csv(sheet);
+};
+
+const escapeHtml = (text: any) =>
+  String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Self-contained printable HTML report (print to PDF from the browser)
+ */
+export const buildReportHtml = (summary: ValidationSummary): string => {
+  const meta = summary.meta;
+  const tables = Array.from(new Set(summary.errors.map((e) => e.table)));
+  const severityColor: Record<string, string> = {
+    [ValidationSeverity.CRITICAL]: '#b91c1c',
+    [ValidationSeverity.WARNING]: '#b45309',
+    [ValidationSeverity.INFO]: '#475569',
+  };
+
+  const countsTable = summaryRows(summary)
+    .slice(7)
+    .map((r) => `<tr>${r.map((c) => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`)
+    .join('');
+
+  const issueSections = tables
+    .map((table) => {
+      const rows = sortBySeverity(summary.errors.filter((e) => e.table === table))
+        .map((e) => `<tr>
+          <td style="color:${severityColor[e.severity]};font-weight:bold">${escapeHtml(e.severity)}</td>
+          <td>${escapeHtml(e.type)}</td>
+          <td>${escapeHtml(e.siteId)}</td>
+          <td>${escapeHtml(e.column || '')}</td>
+          <td>${escapeHtml(e.message)}</td>
+        </tr>`)
+        .join('');
+      return `<h2>${escapeHtml(table)}</h2>
+        <table><thead><tr><th>Severity</th><th>Type</th><th>Site ID</th><th>Column</th><th>Message</th></tr></thead>
+        <tbody>${rows}</tbody></table>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Drillhole Validation Report</title>
+<style>
+  body { font-family: Arial, sans-serif; font-size: 12px; color: #0f172a; margin: 24px; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  h2 { font-size: 15px; margin-top: 24px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; margin-top: 8px; }
+  th, td { border: 1px solid #e2e8f0; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .meta td:first-child { font-weight: bold; width: 160px; }
+  @media print { h2 { page-break-after: avoid; } tr { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Drillhole Validation Report</h1>
+<table class="meta">
+  <tr><td>Run Timestamp</td><td>${escapeHtml(meta?.timestamp || '')}</td></tr>
+  <tr><td>Config Version</td><td>${escapeHtml(meta?.configVersion || '')}</td></tr>
+  <tr><td>Critical Errors</td><td>${summary.totalErrors}</td></tr>
+  <tr><td>Warnings</td><td>${summary.totalWarnings}</td></tr>
+</table>
+<h2>Tables</h2>
+<table><thead><tr><th>Table</th><th>Rows</th><th>Critical</th><th>Warning</th><th>Info</th></tr></thead><tbody>${countsTable}</tbody></table>
+<h2>Rules Applied</h2>
+<ul>${(meta?.rulesApplied || []).map((r) => `<li>${escapeHtml(r)}</li>`).join('')}</ul>
+${issueSections || '<p>No issues found. The data passed all validation checks.</p>'}
+</body>
+</html>`;
+};
@@ -16,15 +16,25 @@ export interface StoredConfig {
   config_name: string;
   configs: any;
   libraries: any;
+  header_aliases?: any;
+  tables?: any;
+  reference_materials?: any;
   updated_at?: string;
   created_at?: string;
 }
 
+// Columns added after the original schema; deployments that have not run the
+// ALTER TABLE migration in SUPABASE_SETUP.md reject payloads containing them.
+const OPTIONAL_COLUMNS = ['header_aliases', 'tables', 'reference_materials'] as const;
+
+// PGRST204: column not in PostgREST schema cache, 42703: undefined column
+const isMissingColumnError = (error: any) => error?.code === 'PGRST204' || error?.code === '42703';
+
 /**
  * Save config to Supabase
  * Uses single shared config approach for all users
  */
-export async function saveConfigToSupabase(configs: any, libraries: any) {
+export async function saveConfigToSupabase(configs: any, libraries: any, headerAliases?: any, tables?: any, referenceMaterials?: any) {
   if (!supabase) {
     console.warn('Supabase is not configured. Config will be saved to localStorage only.');
     return null;
@@ -35,6 +45,9 @@ export async function saveConfigToSupabase(configs: any, libraries: any) {
       config_name: 'default',
       configs,
       libraries,
+      header_aliases: headerAliases,
+      tables,
+      reference_materials: referenceMaterials,
       updated_at: new Date().toISOString(),
     };
 
@@ -50,20 +63,20 @@ export async function saveConfigToSupabase(configs: any, libraries: any) {
       throw fetchError;
     }
 
-    let result: any;
-    if (existingConfig?.id) {
+    const write = (row: Partial<StoredConfig>) => existingConfig?.id
       // Update existing
-      result = await supabase
-        .from('app_configs')
-        .update(payload as Record<string, any>)
-        .eq('id', existingConfig.id)
-        .select();
-    } else {
+      ? supabase!.from('app_configs').update(row as Record<string, any>).eq('id', existingConfig.id).select()
       // Insert new
-      result = await supabase
-        .from('app_configs')
-        .insert([payload as Record<string, any>])
-        .select();
+      : supabase!.from('app_configs').insert([row as Record<string, any>]).select();
+
+    let result: any = await write(payload);
+
+    if (result.error && isMissingColumnError(result.error)) {
+      // Older table without the newer columns: still persist configs and libraries
+      console.warn('Supabase app_configs is missing newer columns; run the upgrade in SUPABASE_SETUP.md. Saving configs and libraries only.');
+      const legacy: Partial<StoredConfig> = { ...payload };
+      OPTIONAL_COLUMNS.forEach((column) => delete legacy[column]);
+      result = await write(legacy);
     }
 
     if (result.error) {
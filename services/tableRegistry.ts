@@ -0,0 +1,127 @@
+import { ColumnConfig, KeyReferenceRule, TableConfig, TableDefinition, TableKind } from '../types';
+import { formatHeader } from './headerMapping';
+
+// Columns each kind's checks rely on. Free tables choose their own key columns.
+export const KIND_KEY_COLUMNS: Record<TableKind, string[]> = {
+  collar: ['SITE_ID'],
+  survey: ['SITE_ID', 'DEPTH'],
+  interval: ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO'],
+  point: ['SITE_ID', 'DEPTH'],
+  free: [],
+};
+
+export const KIND_LABELS: Record<TableKind, string> = {
+  collar: 'Collar',
+  survey: 'Survey',
+  interval: 'Interval (from/to)',
+  point: 'Point (single depth)',
+  free: 'Free (no depth logic)',
+};
+
+// Collar and survey are singletons; custom tables are one of these kinds
+export const CUSTOM_TABLE_KINDS: TableKind[] = ['interval', 'point', 'free'];
+
+const NUMERIC_KEY_COLUMNS = new Set(['DEPTH', 'DEPTH_FROM', 'DEPTH_TO', 'END_DEPTH']);
+
+/**
+ * The collar table every hole-based table is checked against
+ */
+export const getCollarTable = (tables: TableDefinition[]): TableDefinition | undefined =>
+  tables.find((t) => t.kind === 'collar');
+
+/**
+ * Target of a key reference column with no explicit target: SITE_ID of the collar table
+ */
+export const defaultKeyReference = (tables: TableDefinition[]): KeyReferenceRule => ({
+  tableType: getCollarTable(tables)?.name || '',
+  columnName: 'SITE_ID',
+});
+
+/**
+ * Rules in other tables' configs that point at the given table, one description each
+ */
+export const findTableReferences = (name: string, configs: TableConfig[]): string[] =>
+  configs
+    .filter((c) => c.tableType !== name)
+    .flatMap((c) => [
+      ...c.columns
+        .filter((col) => col.validation?.isKeyReference && col.validation.keyReference?.tableType === name)
+        .map((col) => `${c.tableType}.${col.columnName} key reference`),
+      ...(c.crossTableRules || [])
+        .filter((r) => r.targetTable === name)
+        .map(() => `${c.tableType} cross-table rule`),
+      ...(c.geotechRules?.pairedTable === name ? [`${c.tableType} geotechnical paired table`] : []),
+    ]);
+
+/**
+ * Build a custom table definition from user input.
+ * Non-free kinds always use their kind's key columns.
+ */
+export const createTableDefinition = (name: string, kind: TableKind, keyColumns: string[] = []): TableDefinition => ({
+  name: formatHeader(name),
+  label: name.trim(),
+  kind,
+  keyColumns: kind === 'free' ? keyColumns.map(formatHeader).filter((k) => k.length > 0) : KIND_KEY_COLUMNS[kind],
+  isCustom: true,
+});
+
+/**
+ * Starting config for a new table: its key columns, required and non-empty
+ */
+export const createTableConfig = (table: TableDefinition): TableConfig => ({
+  tableType: table.name,
+  columns: table.keyColumns.map((col): ColumnConfig => ({
+    columnName: col,
+    label: col.split('_').map((w) => w.charAt(0) + w.slice(1).toLowerCase()).join(' '),
+    isSchemaRequired: true,
+    isMandatory: true,
+    type: NUMERIC_KEY_COLUMNS.has(col) ? 'float' : 'string',
+  })),
+});
+
+/**
+ * Built-in definitions always come from code; saved custom tables are appended
+ */
+export const mergeTableDefinitions = (
+  saved: TableDefinition[] | undefined,
+  builtIns: TableDefinition[]
+): TableDefinition[] => {
+  const builtInNames = new Set(builtIns.map((t) => t.name));
+  const custom = (saved || []).filter((t) => !builtInNames.has(t.name));
+  return [...builtIns, ...custom.map((t) => ({ ...t, isCustom: true }))];
+};
+
+/**
+ * Add a config for every table that has none yet
+ */
+export const ensureTableConfigs = (
+  configs: TableConfig[],
+  tables: TableDefinition[],
+  builtInConfigs: TableConfig[]
+): TableConfig[] => {
+  const configured = new Set(configs.map((c) => c.tableType));
+  const missing = tables
+    .filter((t) => !configured.has(t.name))
+    .map((t) => builtInConfigs.find((c) => c.tableType === t.name) || createTableConfig(t));
+  return missing.length > 0 ? [...configs, ...missing] : configs;
+};
+
+/**
+ * Columns expected per table: the built-in baseline plus key and configured columns.
+ * Used to highlight headers and to detect which table a file or sheet holds.
+ */
+export const buildExpectedColumns = (
+  tables: TableDefinition[],
+  configs: TableConfig[],
+  baseline: Record<string, string[]>
+): Record<string, string[]> =>
+  Object.fromEntries(
+    tables.map((t) => [
+      t.name,
+      Array.from(new Set([
+        ...(baseline[t.name] || []),
+        ...t.keyColumns,
+        ...(configs.find((c) => c.tableType === t.name)?.columns.map((c) => c.columnName) || []),
+      ])),
+    ])
+  );
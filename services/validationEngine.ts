@@ -2,37 +2,126 @@ import {
   CollarRow,
   IntervalRow,
   SurveyRow,
-  TableType,
   ValidationError,
   ValidationSeverity,
   TableConfig,
   CodeLibrary,
-  ValidationSummary
+  ValidationSummary,
+  AutoFix,
+  SurveyRules,
+  PointRules,
+  IntervalRules,
+  CrossTableRuleType,
+  ConditionalRule,
+  ConditionOperator,
+  ConditionRequirement,
+  ColumnConfig,
+  TableDefinition,
+  QaqcRules,
+  ReferenceMaterial,
+  GeotechRules,
+  StructureRules,
+  CompositionMode,
+  KeyReferenceRule
 } from '../types';
+import { defaultKeyReference, getCollarTable } from './tableRegistry';
+import {
+  ExpressionError,
+  ExpressionNode,
+  evaluateExpression,
+  expressionColumns,
+  matchWildcard,
+  parseExpression,
+  renderMessageTemplate
+} from './expressionEngine';
+
+const NUMERIC_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Helper: Parse number strictly
+ * Returns null for anything that is not a plain number ("12,5", "N/A", "-", "")
+ * so callers never run logic on a fake zero.
+ */
+export const parseNumeric = (val: any): number | null => {
+  if (typeof val === 'number') return isFinite(val) ? val : null;
+  if (val === undefined || val === null) return null;
+  const text = String(val).trim();
+  return NUMERIC_PATTERN.test(text) ? parseFloat(text) : null;
+};
+
+export interface InterpretedValue {
+  kind: 'numeric' | 'below' | 'above' | 'sentinel' | 'invalid';
+  numeric: number | null;
+  limit?: number;
+  meaning?: string;
+}
+
+/**
+ * Helper: Interpret a raw cell of a numeric column, honouring the column's
+ * detection-limit prefixes and sentinel codes.
+ * - numeric:  plain number
+ * - below:    below detection limit ('<0.005'); numeric is half the limit when substitution is on
+ * - above:    above upper limit ('>10')
+ * - sentinel: configured code ('-99', 'IS', 'NSS')
+ * - invalid:  anything else
+ */
+export const interpretValue = (value: any, colConfig: ColumnConfig): InterpretedValue => {
+  const rule = colConfig.specialValues;
+  const text = String(value).trim();
+
+  if (rule) {
+    const sentinel = rule.sentinels.find((s) => s.code.trim().toUpperCase() === text.toUpperCase());
+    if (sentinel) return { kind: 'sentinel', numeric: null, meaning: sentinel.meaning };
+  }
+
+  const numeric = parseNumeric(value);
+  if (numeric !== null) return { kind: 'numeric', numeric };
+
+  if (rule) {
+    if (rule.belowPrefix && text.startsWith(rule.belowPrefix)) {
+      const limit = parseNumeric(text.slice(rule.belowPrefix.length));
+      if (limit !== null) {
+        return { kind: 'below', numeric: rule.substituteHalfDetectionLimit ? limit / 2 : null, limit };
+      }
+    }
+    if (rule.abovePrefix && text.startsWith(rule.abovePrefix)) {
+      const limit = parseNumeric(text.slice(rule.abovePrefix.length));
+      if (limit !== null) return { kind: 'above', numeric: null, limit };
+    }
+  }
+
+  return { kind: 'invalid', numeric: null };
+};
 
 /**
- * Helper: Parse number safely
+ * Helper: Collar END_DEPTH lookup, skipping collars whose depth is not numeric
  */
-const safeFloat = (val: any): number => {
-  const parsed = parseFloat(val);
-  return isNaN(parsed) ? 0 : parsed;
+const buildCollarDepthMap = (collars: CollarRow[]): Map<string, number> => {
+  const map = new Map<string, number>();
+  collars.forEach((c) => {
+    const depth = parseNumeric(c.END_DEPTH);
+    if (depth !== null) map.set(c.SITE_ID, depth);
+  });
+  return map;
 };
 
 /**
  * Helper: Safe Site ID extraction
  * Ensures we always get a string for reporting, using UPPERCASE keys
  */
-const safeSiteId = (row: any): string => {
+export const safeSiteId = (row: any): string => {
   return row.SITE_ID || row.HOLE_ID || row.HOLEID || row.id || 'Unknown';
 };
 
 /**
  * 0. Structure Validation
- * Check if the uploaded data contains all columns marked as isSchemaRequired
+ * Check if the uploaded data contains all columns marked as isSchemaRequired,
+ * plus the table's key columns
  */
 const validateStructure = (
   rows: any[],
-  config: TableConfig
+  config: TableConfig,
+  table: TableDefinition
 ): ValidationError[] => {
   const errors: ValidationError[] = [];
   
@@ -40,17 +129,20 @@ const validateStructure = (
 
   // Keys should already be uppercase from Dashboard.tsx normalization
   const availableKeys = new Set(Object.keys(rows[0]));
+  const requiredColumns = new Set([
+    ...table.keyColumns,
+    ...config.columns.filter((col) => col.isSchemaRequired).map((col) => col.columnName),
+  ]);
 
-  config.columns.forEach((col) => {
-    // Only check if Schema Required is true
-    if (col.isSchemaRequired && !availableKeys.has(col.columnName)) {
+  requiredColumns.forEach((columnName) => {
+    if (!availableKeys.has(columnName)) {
       errors.push({
-        id: `struct-${config.tableType}-${col.columnName}`,
+        id: `struct-${config.tableType}-${columnName}`,
         table: config.tableType,
         rowId: 'HEADER',
         siteId: 'SYSTEM',
-        column: col.columnName,
-        message: `Missing Column Header: Required column '${col.columnName}' was not found in the file.`,
+        column: columnName,
+        message: `Missing Column Header: Required column '${columnName}' was not found in the file.`,
         severity: ValidationSeverity.CRITICAL,
         type: 'STRUCTURE',
       });
@@ -66,8 +158,8 @@ const validateStructure = (
  */
 const validateIntegrity = (
   collars: CollarRow[],
-  rows: (IntervalRow | SurveyRow)[],
-  tableType: TableType
+  rows: any[],
+  tableType: string
 ): ValidationError[] => {
   const errors: ValidationError[] = [];
   const validSiteIds = new Set(collars.map((c) => c.SITE_ID));
@@ -91,32 +183,54 @@ const validateIntegrity = (
   return errors;
 };
 
+/**
+ * Default interval rules, used when an interval table config has none saved
+ */
+export const DEFAULT_INTERVAL_RULES: IntervalRules = {
+  minLength: 0,
+  maxLength: 0,
+  minLengthSeverity: ValidationSeverity.WARNING,
+  maxLengthSeverity: ValidationSeverity.WARNING,
+  gapTolerance: 0.01,
+  overlapTolerance: 0.01,
+  snapTolerance: 0.1,
+  eohTolerance: 0.01,
+  allowGaps: false,
+  allowOverlaps: false,
+  gapSeverity: ValidationSeverity.WARNING,
+  overlapSeverity: ValidationSeverity.CRITICAL,
+};
+
 /**
  * 2. EOH Consistency
  * Max(To) <= Collar.END_DEPTH (critical error per row)
  * plus bottom‑of‑hole coverage – deepest interval should reach total depth
  * (warning unless the hole already has an over‑EOH error, in which case
  * it stays critical to avoid hiding the original problem).
+ * Tables that allow gaps are sparse, so bottom coverage is not checked.
  */
 const validateEOH = (
   collars: CollarRow[],
   rows: IntervalRow[],
-  tableType: TableType
+  config: TableConfig
 ): ValidationError[] => {
   const errors: ValidationError[] = [];
+  const tableType = config.tableType;
+  const rules = { ...DEFAULT_INTERVAL_RULES, ...config.intervalRules };
 
   // build lookup of collar total depths
-  const collarMap = new Map(collars.map((c) => [c.SITE_ID, safeFloat(c.END_DEPTH)]));
+  const collarMap = buildCollarDepthMap(collars);
   // track the deepest "to" value seen for each hole
   const maxToBySite = new Map<string, number>();
   // mark sites that already had an over‑EOH row
   const overSites = new Set<string>();
 
-  const TOLERANCE = 0.01; // allow small floating point variance, generous to avoid false positives
+  const TOLERANCE = rules.eohTolerance; // allow small floating point variance, generous to avoid false positives
 
   rows.forEach((row) => {
     const siteId = row.SITE_ID;
-    const toVal = safeFloat(row.DEPTH_TO);
+    const toVal = parseNumeric(row.DEPTH_TO);
+    if (toVal === null) return; // Non-numeric depths are reported by the type check
 
     // remember largest to for bottom‑of‑hole check later
     const prevMax = maxToBySite.get(siteId);
@@ -129,6 +243,7 @@ const validateEOH = (
       // individual row exceeding end‑of‑hole is always critical
       if (toVal > maxDepth + TOLERANCE) {
         overSites.add(siteId);
+        const fromVal = parseNumeric(row.DEPTH_FROM);
         errors.push({
           id: `eoh-${tableType}-${row.id}`,
           table: tableType,
@@ -138,6 +253,13 @@ const validateEOH = (
           message: `Depth Exceeded: 'DEPTH_TO' (${row.DEPTH_TO}) exceeds Collar END_DEPTH (${maxDepth}).`, 
           severity: ValidationSeverity.CRITICAL,
           type: 'LOGIC',
+          // Only the interval spanning END_DEPTH can be clipped; rows entirely below it need review
+          fix: fromVal !== null && fromVal < maxDepth
+            ? {
+                description: `Clip DEPTH_TO to END_DEPTH ${maxDepth}`,
+                patches: [{ rowId: row.id, column: 'DEPTH_TO', from: row.DEPTH_TO, to: maxDepth }],
+              }
+            : undefined,
         });
       }
     }
@@ -145,6 +267,7 @@ const validateEOH = (
 
   // bottom‑of‑hole coverage: ensure the deepest interval reaches the collar depth
   maxToBySite.forEach((deepest, siteId) => {
+    if (rules.allowGaps) return;
     const total = collarMap.get(siteId);
     if (total !== undefined && deepest < total - TOLERANCE) {
       errors.push({
@@ -164,17 +287,26 @@ const validateEOH = (
 };
 
 /**
- * 3. Interval Logic (Overlaps, Gaps, Zero Length)
+ * 3. Interval Logic (Overlaps, Gaps, Zero Length, Min/Max Length)
+ * Gaps and overlaps within the table's tolerance are ignored; sparse tables
+ * can allow gaps and/or overlaps altogether. Tables with an acrossRows
+ * composition rule log several rows per interval, so a row repeating the
+ * previous row's exact FROM/TO is not an overlap.
  */
 const validateIntervals = (
   rows: IntervalRow[],
-  tableType: TableType
+  config: TableConfig
 ): ValidationError[] => {
   const errors: ValidationError[] = [];
+  const tableType = config.tableType;
+  const rules = { ...DEFAULT_INTERVAL_RULES, ...config.intervalRules };
+  const repeatsIntervals = (config.compositionRules || []).some((r) => r.acrossRows);
   
   // Group by Site ID
   const grouped: Record<string, IntervalRow[]> = {};
   rows.forEach((r) => {
+    // Non-numeric depths are reported by the type check, not treated as zero
+    if (parseNumeric(r.DEPTH_FROM) === null || parseNumeric(r.DEPTH_TO) === null) return;
     const sId = safeSiteId(r);
     if (!grouped[sId]) grouped[sId] = [];
     grouped[sId].push(r);
@@ -182,12 +314,12 @@ const validateIntervals = (
 
   Object.entries(grouped).forEach(([siteId, siteRows]) => {
     // Sort by Depth From
-    siteRows.sort((a, b) => safeFloat(a.DEPTH_FROM) - safeFloat(b.DEPTH_FROM));
+    siteRows.sort((a, b) => parseNumeric(a.DEPTH_FROM)! - parseNumeric(b.DEPTH_FROM)!);
 
     for (let i = 0; i < siteRows.length; i++) {
       const current = siteRows[i];
-      const from = safeFloat(current.DEPTH_FROM);
-      const to = safeFloat(current.DEPTH_TO);
+      const from = parseNumeric(current.DEPTH_FROM)!;
+      const to = parseNumeric(current.DEPTH_TO)!;
 
       // Zero Length
       if (from === to) {
@@ -214,36 +346,86 @@ const validateIntervals = (
           message: `Inverted Interval: DEPTH_FROM (${from}) is greater than DEPTH_TO (${to}).`,
           severity: ValidationSeverity.CRITICAL,
           type: 'INTERVAL',
+          fix: {
+            description: 'Swap DEPTH_FROM and DEPTH_TO',
+            patches: [
+              { rowId: current.id, column: 'DEPTH_FROM', from: current.DEPTH_FROM, to: current.DEPTH_TO },
+              { rowId: current.id, column: 'DEPTH_TO', from: current.DEPTH_TO, to: current.DEPTH_FROM },
+            ],
+          },
+        });
+      }
+
+      // Length limits (zero-length and inverted intervals are reported above)
+      const length = Number((to - from).toFixed(3));
+      if (from < to && rules.minLength > 0 && length < rules.minLength) {
+        errors.push({
+          id: `short-${tableType}-${current.id}`,
+          table: tableType,
+          rowId: current.id,
+          siteId: siteId,
+          column: 'DEPTH_TO',
+          value: length,
+          message: `Interval Too Short: ${from} to ${to} is ${length} m, below the minimum of ${rules.minLength} m.`,
+          severity: rules.minLengthSeverity,
+          type: 'INTERVAL',
+        });
+      }
+      if (from < to && rules.maxLength > 0 && length > rules.maxLength) {
+        errors.push({
+          id: `long-${tableType}-${current.id}`,
+          table: tableType,
+          rowId: current.id,
+          siteId: siteId,
+          column: 'DEPTH_TO',
+          value: length,
+          message: `Interval Too Long: ${from} to ${to} is ${length} m, above the maximum of ${rules.maxLength} m.`,
+          severity: rules.maxLengthSeverity,
+          type: 'INTERVAL',
         });
       }
 
       // Compare with previous for Overlap/Gap
       if (i > 0) {
         const prev = siteRows[i - 1];
-        const prevTo = safeFloat(prev.DEPTH_TO);
+        const prevTo = parseNumeric(prev.DEPTH_TO)!;
+        if (repeatsIntervals && parseNumeric(prev.DEPTH_FROM) === from && prevTo === to) continue;
+        // Small gaps and overlaps are snapped by moving DEPTH_FROM onto the previous DEPTH_TO
+        const snapFix = Math.abs(from - prevTo) <= rules.snapTolerance
+          ? {
+              description: `Snap DEPTH_FROM to previous DEPTH_TO ${prevTo}`,
+              patches: [{ rowId: current.id, column: 'DEPTH_FROM', from: current.DEPTH_FROM, to: prevTo }],
+            }
+          : undefined;
 
-        if (from < prevTo) {
-          errors.push({
-            id: `ovl-${tableType}-${current.id}`,
-            table: tableType,
-            rowId: current.id,
-            siteId: siteId,
-            column: 'DEPTH_FROM',
-            message: `Overlap: Starts at ${from} but previous ended at ${prevTo}.`,
-            severity: ValidationSeverity.CRITICAL,
-            type: 'INTERVAL',
-          });
-        } else if (from > prevTo) {
-          errors.push({
-            id: `gap-${tableType}-${current.id}`,
-            table: tableType,
-            rowId: current.id,
-            siteId: siteId,
-            column: 'DEPTH_FROM',
-            message: `Gap: Gap detected between ${prevTo} and ${from}.`,
-            severity: ValidationSeverity.WARNING,
-            type: 'INTERVAL',
-          });
+        if (prevTo - from > rules.overlapTolerance) {
+          if (!rules.allowOverlaps) {
+            errors.push({
+              id: `ovl-${tableType}-${current.id}`,
+              table: tableType,
+              rowId: current.id,
+              siteId: siteId,
+              column: 'DEPTH_FROM',
+              message: `Overlap: Starts at ${from} but previous ended at ${prevTo}.`,
+              severity: rules.overlapSeverity,
+              type: 'INTERVAL',
+              fix: snapFix,
+            });
+          }
+        } else if (from - prevTo > rules.gapTolerance) {
+          if (!rules.allowGaps) {
+            errors.push({
+              id: `gap-${tableType}-${current.id}`,
+              table: tableType,
+              rowId: current.id,
+              siteId: siteId,
+              column: 'DEPTH_FROM',
+              message: `Gap: Gap detected between ${prevTo} and ${from}.`,
+              severity: rules.gapSeverity,
+              type: 'INTERVAL',
+              fix: snapFix,
+            });
+          }
         }
       }
     }
@@ -252,6 +434,154 @@ const validateIntervals = (
   return errors;
 };
 
+/**
+ * 3b. Type Conformance
+ * Numeric columns ('number' | 'float') must hold real numbers. Reports the raw text
+ * instead of letting it pass as zero.
+ */
+const validateTypes = (
+  rows: any[],
+  config: TableConfig
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const numericColumns = config.columns.filter((c) => c.type === 'number' || c.type === 'float');
+  if (numericColumns.length === 0) return errors;
+
+  rows.forEach((row) => {
+    numericColumns.forEach((colConfig) => {
+      const value = row[colConfig.columnName];
+      if (value === undefined || value === null || value === '') return; // Handled by mandatory check
+
+      if (interpretValue(value, colConfig).kind !== 'invalid') return;
+
+      if (colConfig.specialValues) {
+        errors.push({
+          id: `sentinel-${config.tableType}-${row.id}-${colConfig.columnName}`,
+          table: config.tableType,
+          rowId: row.id,
+          siteId: safeSiteId(row),
+          column: colConfig.columnName,
+          message: `Unknown Code: '${value}' in '${colConfig.columnName}' is neither numeric, a detection-limit value nor a configured sentinel code.`,
+          severity: ValidationSeverity.CRITICAL,
+          type: 'VALUE',
+          value,
+        });
+      } else {
+        errors.push({
+          id: `type-${config.tableType}-${row.id}-${colConfig.columnName}`,
+          table: config.tableType,
+          rowId: row.id,
+          siteId: safeSiteId(row),
+          column: colConfig.columnName,
+          message: `Invalid Number: '${value}' in '${colConfig.columnName}' is not a numeric value.`,
+          severity: ValidationSeverity.CRITICAL,
+          type: 'VALUE',
+          value,
+        });
+      }
+    });
+  });
+
+  return errors;
+};
+
+const isBlank = (value: any): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+const splitValues = (list: string | undefined): string[] =>
+  (list || '').split(',').map((v) => v.trim().toUpperCase()).filter((v) => v.length > 0);
+
+/**
+ * Helper: Whether `code` sits below `ancestor` in a library's parent hierarchy
+ * (any depth). Cycles in the hierarchy end the walk.
+ */
+const isDescendantCode = (library: CodeLibrary, code: string, ancestor: string, caseSensitive: boolean): boolean => {
+  const norm = (c: string) => (caseSensitive ? c.trim() : c.trim().toUpperCase());
+  const parents = new Map(library.items.map((i) => [norm(i.code), i.parent ? norm(i.parent) : '']));
+  const target = norm(ancestor);
+  const visited = new Set<string>();
+  let current = parents.get(norm(code)) || '';
+  while (current && !visited.has(current)) {
+    if (current === target) return true;
+    visited.add(current);
+    current = parents.get(current) || '';
+  }
+  return false;
+};
+
+/**
+ * Helper: Date cell as YYYY-MM-DD, or null when it cannot be read as a day.
+ * Numbers are read as YYYYMMDD when they have that shape, else as Excel serial
+ * dates (1-2958465, i.e. up to 9999-12-31). Bare years (1000-9999) and other
+ * numbers such as Unix timestamps are not a day and give null.
+ */
+const toIsoDate = (value: any): string | null => {
+  if (isBlank(value)) return null;
+  const num = parseNumeric(value);
+  let date: Date;
+  if (num === null) {
+    date = new Date(Date.parse(String(value).trim()));
+  } else if (Number.isInteger(num) && num >= 10000101 && num <= 99991231) {
+    const year = Math.floor(num / 10000);
+    const month = Math.floor(num / 100) % 100;
+    const day = num % 100;
+    date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  } else if (Number.isInteger(num) && num >= 1000 && num <= 9999) {
+    return null;
+  } else if (num >= 1 && num <= 2958465) {
+    date = new Date(Math.round((num - 25569) * 86400000));
+  } else {
+    return null;
+  }
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+export const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: '=',
+  not_equals: '≠',
+  one_of: 'is one of',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+};
+
+export const CONDITION_REQUIREMENT_LABELS: Record<ConditionRequirement, string> = {
+  required: 'is mandatory',
+  empty: 'must be empty',
+  one_of: 'must be one of',
+  not_required: 'is not required',
+};
+
+/**
+ * Helper: Does the row satisfy the rule's IF clause? Codes compare case-insensitively.
+ */
+const matchesCondition = (row: any, rule: ConditionalRule): boolean => {
+  const value = row[rule.ifColumn];
+  const text = isBlank(value) ? '' : String(value).trim().toUpperCase();
+  switch (rule.operator) {
+    case 'equals':
+      return text !== '' && text === (rule.ifValue || '').trim().toUpperCase();
+    case 'not_equals':
+      return text !== '' && text !== (rule.ifValue || '').trim().toUpperCase();
+    case 'one_of':
+      return splitValues(rule.ifValue).includes(text);
+    case 'is_empty':
+      return text === '';
+    case 'is_not_empty':
+      return text !== '';
+  }
+};
+
+/**
+ * Human-readable form of a conditional rule, used in messages and reports
+ */
+export const describeConditionalRule = (rule: ConditionalRule): string => {
+  const needsIfValue = rule.operator === 'equals' || rule.operator === 'not_equals' || rule.operator === 'one_of';
+  const condition = `${rule.ifColumn} ${CONDITION_OPERATOR_LABELS[rule.operator]}${needsIfValue ? ` ${rule.ifValue}` : ''}`;
+  const outcome = `${rule.thenColumn} ${CONDITION_REQUIREMENT_LABELS[rule.requirement]}${rule.requirement === 'one_of' ? ` ${rule.thenValue}` : ''}`;
+  return `If ${condition} then ${outcome}`;
+};
+
 /**
  * 4. Value & Library Validation
  * Checks ranges and lookup codes based on Configuration
@@ -262,6 +592,7 @@ const validateValues = (
   libraries: CodeLibrary[]
 ): ValidationError[] => {
   const errors: ValidationError[] = [];
+  const waivers = (config.conditionalRules || []).filter((r) => r.requirement === 'not_required');
 
   rows.forEach((row) => {
     const sId = safeSiteId(row);
@@ -269,8 +600,9 @@ const validateValues = (
     config.columns.forEach((colConfig) => {
       const value = row[colConfig.columnName];
       
-      // Mandatory Value Check (Null/Empty Check)
-      if (colConfig.isMandatory && (value === undefined || value === '' || value === null)) {
+      // Mandatory Value Check (Null/Empty Check), unless a conditional rule waives it for this row
+      const waived = waivers.some((r) => r.thenColumn === colConfig.columnName && matchesCondition(row, r));
+      if (colConfig.isMandatory && !waived && (value === undefined || value === '' || value === null)) {
         errors.push({
           id: `req-${config.tableType}-${row.id}-${colConfig.columnName}`,
           table: config.tableType,
@@ -288,7 +620,11 @@ const validateValues = (
 
       // Range Validation
       if (colConfig.validation?.range && colConfig.type !== 'string') {
-        const numVal = safeFloat(value);
+        // Detection-limit and sentinel values are censored, never range failures;
+        // invalid text is reported by the type check
+        const interpreted = interpretValue(value, colConfig);
+        if (interpreted.kind !== 'numeric') return;
+        const numVal = interpreted.numeric!;
         const { min, max, strict } = colConfig.validation.range;
 
         if (min !== undefined && numVal < min) {
@@ -323,13 +659,16 @@ const validateValues = (
         const library = libraries.find((l) => l.id === libraryId);
         
         if (library) {
-          const validCodes = new Set(
-            library.items.map((i) => (caseSensitive ? i.code : i.code.toUpperCase()))
+          const itemsByCode = new Map(
+            library.items.map((i) => [caseSensitive ? i.code : i.code.toUpperCase(), i])
           );
           const checkVal = caseSensitive ? String(value) : String(value).toUpperCase();
+          const item = itemsByCode.get(checkVal);
 
-          if (!validCodes.has(checkVal)) {
-             errors.push({
+          if (!item) {
+            // Codes that only fail on surrounding whitespace or case map onto the library code
+            const match = library.items.find((i) => i.code.toUpperCase() === String(value).trim().toUpperCase());
+            errors.push({
               id: `lookup-${config.tableType}-${row.id}-${colConfig.columnName}`,
               table: config.tableType,
               rowId: row.id,
@@ -338,6 +677,76 @@ const validateValues = (
               message: `Invalid Code: '${value}' not found in library '${library.name}'.`,
               severity: ValidationSeverity.CRITICAL,
               type: 'VALUE',
+              fix: match
+                ? {
+                    description: `Replace with library code '${match.code}'`,
+                    patches: [{ rowId: row.id, column: colConfig.columnName, from: value, to: match.code }],
+                  }
+                : undefined,
+            });
+            return;
+          }
+
+          // Retired code: suggest (and offer to apply) the replacement
+          if (item.deprecated) {
+            const replacement = item.replacedBy
+              ? library.items.find((i) => i.code.toUpperCase() === item.replacedBy!.trim().toUpperCase() && !i.deprecated)
+              : undefined;
+            errors.push({
+              id: `deprecated-${config.tableType}-${row.id}-${colConfig.columnName}`,
+              table: config.tableType,
+              rowId: row.id,
+              siteId: sId,
+              column: colConfig.columnName,
+              value,
+              message: `Deprecated Code: '${value}' is retired in library '${library.name}'${replacement ? `; use '${replacement.code}' instead` : ''}.`,
+              severity: ValidationSeverity.WARNING,
+              type: 'VALUE',
+              fix: replacement
+                ? {
+                    description: `Replace deprecated code with '${replacement.code}'`,
+                    patches: [{ rowId: row.id, column: colConfig.columnName, from: value, to: replacement.code }],
+                  }
+                : undefined,
+            });
+          }
+
+          // Validity window, when the row carries a date
+          const { parentColumn, dateColumn } = colConfig.validation.lookup;
+          const rowDate = dateColumn ? toIsoDate(row[dateColumn]) : null;
+          if (rowDate && ((item.validFrom && rowDate < item.validFrom) || (item.validTo && rowDate > item.validTo))) {
+            errors.push({
+              id: `codedate-${config.tableType}-${row.id}-${colConfig.columnName}`,
+              table: config.tableType,
+              rowId: row.id,
+              siteId: sId,
+              column: colConfig.columnName,
+              value,
+              message: `Code Not Valid On Date: '${value}' is valid ${item.validFrom ? `from ${item.validFrom} ` : ''}${item.validTo ? `to ${item.validTo}` : 'onwards'}, but the row is dated ${rowDate} (${dateColumn}).`,
+              severity: ValidationSeverity.WARNING,
+              type: 'VALUE',
+            });
+          }
+
+          // Dependent lookup: the code must belong under the parent column's code.
+          // Blank or unknown parent codes are left to that column's own checks.
+          const parentValue = parentColumn ? row[parentColumn] : undefined;
+          if (
+            parentColumn &&
+            !isBlank(parentValue) &&
+            itemsByCode.has(caseSensitive ? String(parentValue).trim() : String(parentValue).trim().toUpperCase()) &&
+            !isDescendantCode(library, String(value), String(parentValue), caseSensitive)
+          ) {
+            errors.push({
+              id: `deplookup-${config.tableType}-${row.id}-${colConfig.columnName}`,
+              table: config.tableType,
+              rowId: row.id,
+              siteId: sId,
+              column: colConfig.columnName,
+              value,
+              message: `Invalid Code For Parent: '${value}' is not listed under ${parentColumn} '${parentValue}' in library '${library.name}'.`,
+              severity: ValidationSeverity.CRITICAL,
+              type: 'VALUE',
             });
           }
         }
@@ -349,155 +758,1225 @@ const validateValues = (
 };
 
 /**
- * Main Validation Runner
+ * 5. Key Reference Validation
+ * Checks that values in columns flagged as key references exist in the
+ * configured parent table/column (e.g. ASSAY.SAMPLE_ID -> sample register,
+ * SURVEY.SITE_ID -> COLLAR.SITE_ID). Defaults to Collar SITE_ID.
  */
+const validateKeyReferences = (
+  rows: any[],
+  config: TableConfig,
+  tableData: Record<string, any[]>,
+  fallback: KeyReferenceRule
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  if (!rows || rows.length === 0) return errors;
 
-/**
- * Ensure collars have a reasonable END_DEPTH > 0
- */
-const validateCollarDepths = (collars: CollarRow[]): ValidationError[] => {
-  return collars
-    .map(c => {
-      const depth = safeFloat(c.END_DEPTH);
-      if (depth <= 0) {
-        return {
-          id: `collar-depth-${c.id}`,
-          table: TableType.COLLAR,
-          rowId: c.id,
-          siteId: c.SITE_ID,
-          column: 'END_DEPTH',
-          message: `Invalid Collar depth (${c.END_DEPTH}). Must be greater than zero.`,
-          severity: ValidationSeverity.CRITICAL,
-          type: 'VALUE',
-        } as ValidationError;
-      }
-      return null;
-    })
-    .filter((e): e is ValidationError => e !== null);
-};
+  config.columns.forEach((colConfig) => {
+    if (!colConfig.validation?.isKeyReference) return;
 
-export const runValidation = (
-  collarData: CollarRow[],
-  surveyData: SurveyRow[],
-  lithologyData: IntervalRow[],
-  assayData: IntervalRow[],
-  mineralizationData: IntervalRow[],
-  oxidationData: IntervalRow[],
-  geotechData: IntervalRow[],
-  rqdData: IntervalRow[],
-  veinData: IntervalRow[],
-  alterationData: IntervalRow[],
-  densityData: IntervalRow[],
-  configs: TableConfig[],
-  libraries: CodeLibrary[]
-): ValidationSummary => {
-  let allErrors: ValidationError[] = [];
+    const target = colConfig.validation.keyReference || fallback;
+    const parentRows = tableData[target.tableType] || [];
 
-  // --- 1. COLLAR CHECKS ---
-  const collarConfig = configs.find(c => c.tableType === TableType.COLLAR);
-  if (collarConfig) {
-      allErrors = [...allErrors, ...validateStructure(collarData, collarConfig)];
-      allErrors = [...allErrors, ...validateValues(collarData, collarConfig, libraries)];
-      // explicit check for valid total depth
-      allErrors = [...allErrors, ...validateCollarDepths(collarData)];
-  }
+    if (parentRows.length === 0) {
+      errors.push({
+        id: `keyref-empty-${config.tableType}-${colConfig.columnName}`,
+        table: config.tableType,
+        rowId: 'HEADER',
+        siteId: 'SYSTEM',
+        column: colConfig.columnName,
+        message: `Key Reference Skipped: Parent table ${target.tableType} has no data to check '${colConfig.columnName}' against.`,
+        severity: ValidationSeverity.WARNING,
+        type: 'INTEGRITY',
+      });
+      return;
+    }
 
-  // --- 2. SURVEY CHECKS ---
-  const surveyConfig = configs.find(c => c.tableType === TableType.SURVEY);
-  if (surveyConfig) {
-     allErrors = [...allErrors, ...validateStructure(surveyData, surveyConfig)];
-     allErrors = [...allErrors, ...validateValues(surveyData, surveyConfig, libraries)];
-  }
-  
-  // Integrity & Logic for Survey
-  allErrors = [...allErrors, ...validateIntegrity(collarData, surveyData, TableType.SURVEY)];
-  const collarMap = new Map(collarData.map((c) => [c.SITE_ID, safeFloat(c.END_DEPTH)]));
-  
-  surveyData.forEach(row => {
-    const max = collarMap.get(row.SITE_ID);
-    if(max !== undefined && row.DEPTH > max) {
-       allErrors.push({
-          id: `eoh-surv-${row.id}`,
-          table: TableType.SURVEY,
+    const validKeys = new Set(
+      parentRows
+        .map((r) => r[target.columnName])
+        .filter((v) => v !== undefined && v !== null && v !== '')
+        .map((v) => String(v).trim())
+    );
+
+    rows.forEach((row) => {
+      const value = row[colConfig.columnName];
+      if (value === undefined || value === null || value === '') return; // Handled by mandatory check
+
+      if (!validKeys.has(String(value).trim())) {
+        errors.push({
+          id: `keyref-${config.tableType}-${row.id}-${colConfig.columnName}`,
+          table: config.tableType,
           rowId: row.id,
           siteId: safeSiteId(row),
-          column: 'DEPTH',
-          message: `Survey Depth ${row.DEPTH} exceeds EOH ${max}.`,
+          column: colConfig.columnName,
+          message: `Unmatched Key: '${value}' in ${colConfig.columnName} not found in ${target.tableType}.${target.columnName}.`,
           severity: ValidationSeverity.CRITICAL,
-          type: 'LOGIC'
-       })
-    }
+          type: 'INTEGRITY',
+        });
+      }
+    });
   });
 
-  // Helper to run all standard interval checks for a table
-  const validateGenericInterval = (data: IntervalRow[], type: TableType) => {
-    const config = configs.find(c => c.tableType === type);
-    if (config) {
-      // 0. Structure
-      allErrors = [...allErrors, ...validateStructure(data, config)];
-      // 1. Integrity (Orphan checks)
-      allErrors = [...allErrors, ...validateIntegrity(collarData, data, type)];
-      // 2. EOH Checks
-      allErrors = [...allErrors, ...validateEOH(collarData, data, type)];
-      // 3. Interval Logic (Overlaps, Gaps)
-      allErrors = [...allErrors, ...validateIntervals(data, type)];
-      // 4. Value / Library Checks
-      allErrors = [...allErrors, ...validateValues(data, config, libraries)];
+  return errors;
+};
+
+/**
+ * Default survey rules, used when the SURVEY config has none saved
+ */
+export const DEFAULT_SURVEY_RULES: SurveyRules = {
+  maxDoglegPer30m: 3,
+  requireCollarStation: true,
+};
+
+/**
+ * Helper: Angle (degrees) between two survey directions given as azimuth/dip.
+ * Works on direction vectors, so azimuth wraparound (359° -> 1°) is handled naturally.
+ */
+export const doglegAngle = (az1: number, dip1: number, az2: number, dip2: number): number => {
+  const rad = Math.PI / 180;
+  const v1 = [Math.cos(dip1 * rad) * Math.sin(az1 * rad), Math.cos(dip1 * rad) * Math.cos(az1 * rad), Math.sin(dip1 * rad)];
+  const v2 = [Math.cos(dip2 * rad) * Math.sin(az2 * rad), Math.cos(dip2 * rad) * Math.cos(az2 * rad), Math.sin(dip2 * rad)];
+  const dot = v1[0] * v2[0] + v1[1] * v2[1] + v1[2] * v2[2];
+  // clamp to avoid NaN from floating point drift
+  return Math.acos(Math.min(1, Math.max(-1, dot))) / rad;
+};
+
+/**
+ * 6. Survey Logic
+ * Per hole (sorted by DEPTH): duplicate stations, missing collar (0 m) station
+ * and dogleg severity (per 30 m) between consecutive stations.
+ */
+const validateSurvey = (
+  rows: SurveyRow[],
+  config: TableConfig
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = { ...DEFAULT_SURVEY_RULES, ...config.surveyRules };
+  const TOLERANCE = 0.01;
+
+  const grouped: Record<string, SurveyRow[]> = {};
+  rows.forEach((r) => {
+    if ([r.DEPTH, r.AZIMUTH, r.DIP].some((v) => parseNumeric(v) === null)) return;
+    const sId = safeSiteId(r);
+    if (!grouped[sId]) grouped[sId] = [];
+    grouped[sId].push(r);
+  });
+
+  Object.entries(grouped).forEach(([siteId, siteRows]) => {
+    const sorted = [...siteRows].sort((a, b) => parseNumeric(a.DEPTH)! - parseNumeric(b.DEPTH)!);
+
+    // Missing collar station
+    const firstDepth = parseNumeric(sorted[0].DEPTH)!;
+    if (rules.requireCollarStation && firstDepth > TOLERANCE) {
+      errors.push({
+        id: `survcollar-${siteId}`,
+        table: config.tableType,
+        rowId: sorted[0].id,
+        siteId,
+        column: 'DEPTH',
+        message: `Missing Collar Station: first survey station is at ${firstDepth} m, no 0 m station recorded.`,
+        severity: ValidationSeverity.WARNING,
+        type: 'LOGIC',
+      });
     }
-  };
 
-  // --- 3. RUN INTERVAL CHECKS ---
-  validateGenericInterval(lithologyData, TableType.LITHOLOGY);
-  validateGenericInterval(assayData, TableType.ASSAY);
-  validateGenericInterval(mineralizationData, TableType.MINERALIZATION);
-  validateGenericInterval(oxidationData, TableType.OXIDATION);
-  validateGenericInterval(geotechData, TableType.GEOTECH);
-  validateGenericInterval(rqdData, TableType.RQD);
-  validateGenericInterval(veinData, TableType.VEIN);
-  validateGenericInterval(alterationData, TableType.ALTERATION);
-  validateGenericInterval(densityData, TableType.DENSITY);
-
-  // --- Summary Calculation ---
-  
-  // collapse repeated errors into grouped entries so the log isn’t flooded by
-  // the same problem occurring many times for the same hole/column.
-  const groupErrors = (errors: ValidationError[]): ValidationError[] => {
-    const map = new Map<string, { base: ValidationError; count: number; rowIds: string[] }>();
-    errors.forEach(err => {
-      // include first part of id (error category) to avoid merging over‑ and under‑EOH
-      const category = err.id.split('-')[0];
-      const key = [err.table, err.siteId, err.column || '', err.type, err.severity, category].join('|');
-      const existing = map.get(key);
-      if (existing) {
-        existing.count += 1;
-        existing.rowIds.push(err.rowId);
-      } else {
-        map.set(key, { base: { ...err }, count: 1, rowIds: [err.rowId] });
-      }
-    });
+    for (let i = 1; i < sorted.length; i++) {
+      const prev = sorted[i - 1];
+      const current = sorted[i];
+      const prevDepth = parseNumeric(prev.DEPTH)!;
+      const depth = parseNumeric(current.DEPTH)!;
 
-    const result: ValidationError[] = [];
-    map.forEach(({ base, count, rowIds }) => {
-      if (count > 1) {
-        const grouped = { ...base };
-        grouped.rowId = rowIds.join(',');
-        // generic message based on category
-        if (base.id.startsWith('eohbot')) {
-          grouped.message = `${count} bottom‑of‑hole coverage issues on site ${base.siteId}.`;
-        } else if (base.id.startsWith('eoh')) {
-          grouped.message = `${count} intervals exceeded EOH on site ${base.siteId}.`;
-        } else {
-          grouped.message = `Multiple similar errors on site ${base.siteId}.`;
-        }
-        result.push(grouped);
-      } else {
-        result.push(base);
+      // Duplicate station
+      if (Math.abs(depth - prevDepth) <= TOLERANCE) {
+        errors.push({
+          id: `survdup-${current.id}`,
+          table: config.tableType,
+          rowId: current.id,
+          siteId,
+          column: 'DEPTH',
+          message: `Duplicate Station: more than one survey recorded at depth ${depth}.`,
+          severity: ValidationSeverity.CRITICAL,
+          type: 'LOGIC',
+        });
+        continue;
       }
-    });
-    return result;
-  };
 
-  const finalErrors = groupErrors(allErrors);
+      // Dogleg severity normalised to 30 m
+      const dogleg = doglegAngle(
+        parseNumeric(prev.AZIMUTH)!, parseNumeric(prev.DIP)!,
+        parseNumeric(current.AZIMUTH)!, parseNumeric(current.DIP)!
+      );
+      const dls = (dogleg * 30) / (depth - prevDepth);
+      if (dls > rules.maxDoglegPer30m) {
+        errors.push({
+          id: `dls-${current.id}`,
+          table: config.tableType,
+          rowId: current.id,
+          siteId,
+          column: 'AZIMUTH',
+          message: `Dogleg Severity: ${dls.toFixed(2)}°/30m between ${prevDepth} and ${depth} exceeds limit of ${rules.maxDoglegPer30m}°/30m.`,
+          severity: ValidationSeverity.WARNING,
+          type: 'LOGIC',
+        });
+      }
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * 7. Unique Key Validation
+ * Every configured composite key must be unique within its table.
+ * Collar and free tables always enforce their key columns (the collar lookup relies on SITE_ID).
+ */
+const validateUniqueKeys = (
+  rows: any[],
+  config: TableConfig,
+  table: TableDefinition
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  if (!rows || rows.length === 0) return errors;
+
+  const keys = [...(config.uniqueKeys || [])].filter((k) => k.length > 0);
+  const builtInKey = table.keyColumns;
+  if (
+    (table.kind === 'collar' || table.kind === 'free') &&
+    builtInKey.length > 0 &&
+    !keys.some((k) => k.join('+') === builtInKey.join('+'))
+  ) {
+    keys.unshift(builtInKey);
+  }
+
+  keys.forEach((keyColumns) => {
+    const keyLabel = keyColumns.join('+');
+    const seen = new Map<string, any[]>();
+
+    rows.forEach((row) => {
+      const parts = keyColumns.map((col) => row[col]);
+      // Rows with an incomplete key are left to the mandatory check
+      if (parts.some((p) => p === undefined || p === null || p === '')) return;
+
+      const keyValue = parts.map((p) => String(p).trim()).join(' | ');
+      const existing = seen.get(keyValue);
+      if (existing) existing.push(row);
+      else seen.set(keyValue, [row]);
+    });
+
+    seen.forEach((instances, keyValue) => {
+      if (instances.length < 2) return;
+      const rowIds = instances.map((r) => r.id);
+      errors.push({
+        id: `dupkey-${config.tableType}-${keyLabel}-${rowIds[0]}`,
+        table: config.tableType,
+        rowId: rowIds.join(','),
+        siteId: safeSiteId(instances[0]),
+        column: keyLabel,
+        message: `Duplicate Key: ${keyLabel} '${keyValue}' appears ${instances.length} times (rows ${rowIds.join(', ')}).`,
+        severity: ValidationSeverity.CRITICAL,
+        type: 'INTEGRITY',
+      });
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Default point rules, used when a point table config has none saved
+ */
+export const DEFAULT_POINT_RULES: PointRules = {
+  allowDuplicateDepths: false,
+  minSpacing: 0,
+};
+
+/**
+ * 8. Point Logic
+ * Per hole (sorted by DEPTH): depth within 0..END_DEPTH, duplicate depths and
+ * readings closer together than the configured minimum spacing.
+ */
+const validatePoints = (
+  rows: any[],
+  config: TableConfig,
+  collarMap: Map<string, number>
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = { ...DEFAULT_POINT_RULES, ...config.pointRules };
+  const TOLERANCE = 0.01;
+
+  const grouped: Record<string, any[]> = {};
+  rows.forEach((r) => {
+    const depth = parseNumeric(r.DEPTH);
+    if (depth === null) return; // Non-numeric depths are reported by the type check
+    const sId = safeSiteId(r);
+
+    if (depth < 0) {
+      errors.push({
+        id: `ptneg-${config.tableType}-${r.id}`,
+        table: config.tableType,
+        rowId: r.id,
+        siteId: sId,
+        column: 'DEPTH',
+        message: `Negative Depth: reading at ${depth} is above the collar.`,
+        severity: ValidationSeverity.CRITICAL,
+        type: 'LOGIC',
+      });
+    }
+
+    const maxDepth = collarMap.get(r.SITE_ID);
+    if (maxDepth !== undefined && maxDepth > 0 && depth > maxDepth + TOLERANCE) {
+      errors.push({
+        id: `pteoh-${config.tableType}-${r.id}`,
+        table: config.tableType,
+        rowId: r.id,
+        siteId: sId,
+        column: 'DEPTH',
+        message: `Depth Exceeded: reading at ${depth} is beyond Collar END_DEPTH (${maxDepth}).`,
+        severity: ValidationSeverity.CRITICAL,
+        type: 'LOGIC',
+      });
+    }
+
+    if (!grouped[sId]) grouped[sId] = [];
+    grouped[sId].push(r);
+  });
+
+  Object.entries(grouped).forEach(([siteId, siteRows]) => {
+    const sorted = [...siteRows].sort((a, b) => parseNumeric(a.DEPTH)! - parseNumeric(b.DEPTH)!);
+
+    for (let i = 1; i < sorted.length; i++) {
+      const prevDepth = parseNumeric(sorted[i - 1].DEPTH)!;
+      const current = sorted[i];
+      const depth = parseNumeric(current.DEPTH)!;
+      const spacing = depth - prevDepth;
+
+      if (spacing <= TOLERANCE) {
+        if (!rules.allowDuplicateDepths) {
+          errors.push({
+            id: `ptdup-${config.tableType}-${current.id}`,
+            table: config.tableType,
+            rowId: current.id,
+            siteId,
+            column: 'DEPTH',
+            message: `Duplicate Depth: more than one reading recorded at ${depth}.`,
+            severity: ValidationSeverity.CRITICAL,
+            type: 'LOGIC',
+          });
+        }
+      } else if (rules.minSpacing > 0 && spacing < rules.minSpacing - TOLERANCE) {
+        errors.push({
+          id: `ptspace-${config.tableType}-${current.id}`,
+          table: config.tableType,
+          rowId: current.id,
+          siteId,
+          column: 'DEPTH',
+          message: `Close Spacing: readings at ${prevDepth} and ${depth} are ${Number(spacing.toFixed(3))} m apart, below the minimum of ${rules.minSpacing} m.`,
+          severity: ValidationSeverity.WARNING,
+          type: 'LOGIC',
+        });
+      }
+    }
+  });
+
+  return errors;
+};
+
+export const CROSS_TABLE_RULE_LABELS: Record<CrossTableRuleType, string> = {
+  covered_by: 'Covered by',
+  no_crossing: 'Must not cross contacts of',
+  same_span: 'Same depth span as',
+};
+
+/**
+ * Helper: Valid (numeric, non-inverted) intervals per site, sorted by DEPTH_FROM
+ */
+const groupIntervalsBySite = (rows: any[]): Map<string, { row: any; from: number; to: number }[]> => {
+  const map = new Map<string, { row: any; from: number; to: number }[]>();
+  rows.forEach((row) => {
+    const from = parseNumeric(row.DEPTH_FROM);
+    const to = parseNumeric(row.DEPTH_TO);
+    // Non-numeric and inverted intervals are reported by the type and interval checks
+    if (from === null || to === null || from >= to) return;
+    const sId = safeSiteId(row);
+    const list = map.get(sId);
+    if (list) list.push({ row, from, to });
+    else map.set(sId, [{ row, from, to }]);
+  });
+  map.forEach((list) => list.sort((a, b) => a.from - b.from));
+  return map;
+};
+
+/**
+ * 9. Cross-Table Interval Rules
+ * Compares this table's intervals with another interval table, per SITE_ID:
+ * - covered_by:  reports the parts of each interval not covered by target intervals
+ * - no_crossing: reports intervals that straddle a target contact
+ * - same_span:   reports holes whose top/bottom differ from the target's
+ */
+const validateCrossTable = (
+  rows: any[],
+  config: TableConfig,
+  tableData: Record<string, any[]>
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  if (!rows || rows.length === 0) return errors;
+  const TOLERANCE = 0.01;
+  const sourceBySite = groupIntervalsBySite(rows);
+
+  (config.crossTableRules || []).forEach((rule) => {
+    const target = rule.targetTable;
+    const targetRows = tableData[target] || [];
+
+    if (targetRows.length === 0) {
+      errors.push({
+        id: `xtab-empty-${config.tableType}-${rule.type}-${target}`,
+        table: config.tableType,
+        rowId: 'HEADER',
+        siteId: 'SYSTEM',
+        message: `Cross-Table Rule Skipped: ${target} has no data to compare ${config.tableType} against.`,
+        severity: ValidationSeverity.WARNING,
+        type: 'INTERVAL',
+      });
+      return;
+    }
+
+    const targetBySite = groupIntervalsBySite(targetRows);
+
+    if (rule.type === 'covered_by') {
+      sourceBySite.forEach((intervals, siteId) => {
+        // Merge target intervals into continuous logged segments
+        const segments: { from: number; to: number }[] = [];
+        (targetBySite.get(siteId) || []).forEach(({ from, to }) => {
+          const last = segments[segments.length - 1];
+          if (last && from <= last.to + TOLERANCE) last.to = Math.max(last.to, to);
+          else segments.push({ from, to });
+        });
+
+        intervals.forEach(({ row, from, to }) => {
+          const uncovered: string[] = [];
+          let cursor = from;
+          segments.forEach((seg) => {
+            if (seg.to <= cursor || seg.from >= to) return;
+            if (seg.from > cursor + TOLERANCE) uncovered.push(`${cursor}–${seg.from}`);
+            cursor = Math.max(cursor, seg.to);
+          });
+          if (cursor < to - TOLERANCE) uncovered.push(`${cursor}–${to}`);
+
+          if (uncovered.length > 0) {
+            errors.push({
+              id: `xcover-${config.tableType}-${row.id}-${target}`,
+              table: config.tableType,
+              rowId: row.id,
+              siteId,
+              column: 'DEPTH_FROM',
+              message: `Not Covered: interval ${from}–${to} has no ${target} logged over ${uncovered.join(', ')}.`,
+              severity: rule.severity,
+              type: 'INTERVAL',
+            });
+          }
+        });
+      });
+    } else if (rule.type === 'no_crossing') {
+      sourceBySite.forEach((intervals, siteId) => {
+        const contacts = Array.from(new Set(
+          (targetBySite.get(siteId) || []).flatMap(({ from, to }) => [from, to])
+        )).sort((a, b) => a - b);
+
+        intervals.forEach(({ row, from, to }) => {
+          const crossed = contacts.filter((c) => c > from + TOLERANCE && c < to - TOLERANCE);
+          if (crossed.length > 0) {
+            errors.push({
+              id: `xcross-${config.tableType}-${row.id}-${target}`,
+              table: config.tableType,
+              rowId: row.id,
+              siteId,
+              column: 'DEPTH_FROM',
+              message: `Crosses Contact: interval ${from}–${to} crosses ${target} contact at ${crossed.join(', ')}.`,
+              severity: rule.severity,
+              type: 'INTERVAL',
+            });
+          }
+        });
+      });
+    } else if (rule.type === 'same_span') {
+      const siteIds = new Set([...sourceBySite.keys(), ...targetBySite.keys()]);
+      siteIds.forEach((siteId) => {
+        const source = sourceBySite.get(siteId) || [];
+        const other = targetBySite.get(siteId) || [];
+        const span = (list: { from: number; to: number }[]) =>
+          list.length === 0 ? null : { top: list[0].from, bottom: Math.max(...list.map((i) => i.to)) };
+        const a = span(source);
+        const b = span(other);
+
+        const describe = (x: { top: number; bottom: number } | null) => (x ? `${x.top}–${x.bottom}` : 'nothing');
+        if (!a || !b || Math.abs(a.top - b.top) > TOLERANCE || Math.abs(a.bottom - b.bottom) > TOLERANCE) {
+          errors.push({
+            id: `xspan-${config.tableType}-${target}-${siteId}`,
+            table: config.tableType,
+            rowId: '',
+            siteId,
+            column: 'DEPTH_TO',
+            message: `Span Mismatch: ${config.tableType} logged over ${describe(a)} but ${target} over ${describe(b)}.`,
+            severity: rule.severity,
+            type: 'INTERVAL',
+          });
+        }
+      });
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * 10. Conditional Rules
+ * Row-level IF/THEN rules between columns. 'not_required' rules only waive the
+ * mandatory check (see validateValues) and never raise errors themselves.
+ */
+const validateConditionals = (rows: any[], config: TableConfig): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = (config.conditionalRules || []).filter(
+    (r) => r.ifColumn && r.thenColumn && r.requirement !== 'not_required'
+  );
+  if (rules.length === 0) return errors;
+
+  rows.forEach((row) => {
+    rules.forEach((rule, idx) => {
+      if (!matchesCondition(row, rule)) return;
+
+      const value = row[rule.thenColumn];
+      let problem: string | null = null;
+      if (rule.requirement === 'required' && isBlank(value)) {
+        problem = `'${rule.thenColumn}' is empty`;
+      } else if (rule.requirement === 'empty' && !isBlank(value)) {
+        problem = `'${rule.thenColumn}' has value '${value}'`;
+      } else if (
+        rule.requirement === 'one_of' &&
+        (isBlank(value) || !splitValues(rule.thenValue).includes(String(value).trim().toUpperCase()))
+      ) {
+        problem = isBlank(value) ? `'${rule.thenColumn}' is empty` : `'${rule.thenColumn}' has value '${value}'`;
+      }
+      if (!problem) return;
+
+      errors.push({
+        id: `cond-${config.tableType}-${idx}-${row.id}`,
+        table: config.tableType,
+        rowId: row.id,
+        siteId: safeSiteId(row),
+        column: rule.thenColumn,
+        value: isBlank(value) ? undefined : value,
+        message: `Conditional Rule: ${problem}. ${describeConditionalRule(rule)}.`,
+        severity: rule.severity,
+        type: 'LOGIC',
+      });
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * 11. Expression Rules
+ * Custom rules in the sandboxed expression language. A row fails when its
+ * expression is false; unknown results (blank or non-numeric operands) pass.
+ * An expression that does not parse is reported once per table.
+ */
+const validateExpressions = (rows: any[], config: TableConfig): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = (config.expressionRules || []).filter((r) => r.expression.trim() !== '');
+  if (rules.length === 0 || rows.length === 0) return errors;
+
+  rules.forEach((rule, idx) => {
+    let tree: ExpressionNode;
+    try {
+      tree = parseExpression(rule.expression);
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      errors.push({
+        id: `exprsyntax-${config.tableType}-${idx}`,
+        table: config.tableType,
+        rowId: 'HEADER',
+        siteId: 'SYSTEM',
+        message: `Invalid Expression Rule: '${rule.expression}' - ${e.message}`,
+        severity: ValidationSeverity.CRITICAL,
+        type: 'STRUCTURE',
+      });
+      return;
+    }
+
+    const referenced = expressionColumns(tree);
+
+    rows.forEach((row) => {
+      if (evaluateExpression(tree, row) !== false) return;
+
+      // Referenced columns (wildcards expanded) so exports can highlight the cells involved
+      const columns = referenced.flatMap((c) => (c.endsWith('*') ? matchWildcard(row, c.slice(0, -1)) : [c]));
+      errors.push({
+        id: `expr-${config.tableType}-${idx}-${row.id}`,
+        table: config.tableType,
+        rowId: row.id,
+        siteId: safeSiteId(row),
+        column: columns.join('+') || undefined,
+        message: rule.message?.trim()
+          ? renderMessageTemplate(rule.message, row)
+          : `Expression Rule Failed: ${rule.expression}`,
+        severity: rule.severity,
+        type: 'LOGIC',
+      });
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Default QAQC rules, used when QAQC checks are switched on for a table
+ */
+export const DEFAULT_QAQC_RULES: QaqcRules = {
+  sampleTypeColumn: 'SAMPLE_TYPE',
+  standardTypes: 'STD,CRM',
+  blankTypes: 'BLK,BLANK',
+  duplicateTypes: 'DUP,FD',
+  standardColumn: 'STANDARD_ID',
+  sampleIdColumn: 'SAMPLE_ID',
+  parentColumn: 'PARENT_ID',
+  batchColumn: 'LAB_JOB_NO',
+  elements: [],
+  blankMultiple: 5,
+  maxDuplicateRPD: 20,
+  minInsertionRate: 5,
+};
+
+/**
+ * Helper: Numeric grade of a QC cell; below-detection values resolve per the
+ * column's special-value rule (null unless half-DL substitution is on)
+ */
+const qcGrade = (row: any, column: string, config: TableConfig): number | null => {
+  const value = row[column];
+  if (isBlank(value)) return null;
+  const colConfig = config.columns.find((c) => c.columnName === column);
+  return colConfig ? interpretValue(value, colConfig).numeric : parseNumeric(value);
+};
+
+/**
+ * 12. QAQC
+ * Standards against their reference material (beyond ±2SD warns, ±3SD fails),
+ * blanks against a multiple of the detection limit, duplicate pairs by relative
+ * percent difference (pairs averaging under 10x DL are too noisy and skipped),
+ * and the QC insertion rate per batch. Duplicate parents are looked up in
+ * allRows so partial runs still find them.
+ */
+const validateQaqc = (
+  rows: any[],
+  config: TableConfig,
+  referenceMaterials: ReferenceMaterial[],
+  allRows: any[] = rows
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = config.qaqcRules;
+  if (!rules || rows.length === 0) return errors;
+
+  const standardTypes = splitValues(rules.standardTypes);
+  const blankTypes = splitValues(rules.blankTypes);
+  const duplicateTypes = splitValues(rules.duplicateTypes);
+  const sampleType = (row: any) => String(row[rules.sampleTypeColumn] ?? '').trim().toUpperCase();
+  const materials = new Map(referenceMaterials.map((m) => [m.code.trim().toUpperCase(), m]));
+  const samplesById = new Map(
+    allRows.filter((r) => !isBlank(r[rules.sampleIdColumn])).map((r) => [String(r[rules.sampleIdColumn]).trim(), r])
+  );
+
+  rows.forEach((row) => {
+    const type = sampleType(row);
+
+    if (standardTypes.includes(type)) {
+      const code = String(row[rules.standardColumn] ?? '').trim();
+      const material = materials.get(code.toUpperCase());
+      if (!material) {
+        errors.push({
+          id: `qcstdunk-${row.id}`,
+          table: config.tableType,
+          rowId: row.id,
+          siteId: safeSiteId(row),
+          column: rules.standardColumn,
+          value: code || undefined,
+          message: code
+            ? `Standard '${code}' is not in the reference material library.`
+            : `Standard has no ${rules.standardColumn}.`,
+          severity: ValidationSeverity.WARNING,
+          type: 'INTEGRITY',
+        });
+        return;
+      }
+
+      material.values.forEach((ref) => {
+        const grade = qcGrade(row, ref.column, config);
+        if (grade === null || !(ref.sd > 0)) return;
+        const z = (grade - ref.expected) / ref.sd;
+        if (Math.abs(z) <= 2) return;
+
+        errors.push({
+          id: `qcstd-${ref.column}-${row.id}`,
+          table: config.tableType,
+          rowId: row.id,
+          siteId: safeSiteId(row),
+          column: ref.column,
+          value: row[ref.column],
+          message: `Standard ${material.code} ${ref.column} = ${grade}, expected ${ref.expected} ± ${ref.sd} (${z > 0 ? '+' : ''}${z.toFixed(1)} SD, beyond ±${Math.abs(z) > 3 ? 3 : 2}SD).`,
+          severity: Math.abs(z) > 3 ? ValidationSeverity.CRITICAL : ValidationSeverity.WARNING,
+          type: 'VALUE',
+        });
+      });
+    } else if (blankTypes.includes(type)) {
+      rules.elements.forEach((el) => {
+        const grade = qcGrade(row, el.column, config);
+        const limit = el.detectionLimit * rules.blankMultiple;
+        if (grade === null || !(el.detectionLimit > 0) || grade <= limit) return;
+
+        errors.push({
+          id: `qcblk-${el.column}-${row.id}`,
+          table: config.tableType,
+          rowId: row.id,
+          siteId: safeSiteId(row),
+          column: el.column,
+          value: row[el.column],
+          message: `Blank ${el.column} = ${grade} exceeds ${rules.blankMultiple}x detection limit (${limit}). Possible contamination.`,
+          severity: ValidationSeverity.WARNING,
+          type: 'VALUE',
+        });
+      });
+    } else if (duplicateTypes.includes(type)) {
+      const parentId = String(row[rules.parentColumn] ?? '').trim();
+      const parent = parentId ? samplesById.get(parentId) : undefined;
+      if (!parent) {
+        errors.push({
+          id: `qcdupmiss-${row.id}`,
+          table: config.tableType,
+          rowId: row.id,
+          siteId: safeSiteId(row),
+          column: rules.parentColumn,
+          value: parentId || undefined,
+          message: parentId
+            ? `Duplicate refers to sample '${parentId}', which is not in the table.`
+            : `Duplicate has no ${rules.parentColumn}.`,
+          severity: ValidationSeverity.WARNING,
+          type: 'INTEGRITY',
+        });
+        return;
+      }
+
+      rules.elements.forEach((el) => {
+        const a = qcGrade(parent, el.column, config);
+        const b = qcGrade(row, el.column, config);
+        if (a === null || b === null) return;
+        const mean = (a + b) / 2;
+        if (mean <= 0 || mean < el.detectionLimit * 10) return;
+        const rpd = (Math.abs(a - b) / mean) * 100;
+        if (rpd <= rules.maxDuplicateRPD) return;
+
+        errors.push({
+          id: `qcdup-${el.column}-${row.id}`,
+          table: config.tableType,
+          rowId: row.id,
+          siteId: safeSiteId(row),
+          column: el.column,
+          value: row[el.column],
+          message: `Duplicate of ${parentId}: ${el.column} ${b} vs ${a} (RPD ${rpd.toFixed(1)}% > ${rules.maxDuplicateRPD}%).`,
+          severity: ValidationSeverity.WARNING,
+          type: 'VALUE',
+        });
+      });
+    }
+  });
+
+  // Insertion rate per batch
+  const batches = new Map<string, { total: number; standards: number; blanks: number; duplicates: number }>();
+  rows.forEach((row) => {
+    if (isBlank(row[rules.batchColumn])) return;
+    const batch = String(row[rules.batchColumn]).trim();
+    const counts = batches.get(batch) || { total: 0, standards: 0, blanks: 0, duplicates: 0 };
+    const type = sampleType(row);
+    counts.total += 1;
+    if (standardTypes.includes(type)) counts.standards += 1;
+    else if (blankTypes.includes(type)) counts.blanks += 1;
+    else if (duplicateTypes.includes(type)) counts.duplicates += 1;
+    batches.set(batch, counts);
+  });
+
+  batches.forEach((counts, batch) => {
+    const qc = counts.standards + counts.blanks + counts.duplicates;
+    const rate = (qc / counts.total) * 100;
+    const low = rules.minInsertionRate > 0 && rate < rules.minInsertionRate;
+    errors.push({
+      id: `qcrate-${config.tableType}-${batch}`,
+      table: config.tableType,
+      rowId: '',
+      siteId: 'SYSTEM',
+      column: rules.batchColumn,
+      value: `${batch} (${rate.toFixed(1)}%)`,
+      message: `Batch ${batch}: QC insertion rate ${rate.toFixed(1)}% (${counts.standards} standards, ${counts.blanks} blanks, ${counts.duplicates} duplicates in ${counts.total} samples)${low ? `, below the minimum of ${rules.minInsertionRate}%` : ''}.`,
+      severity: low ? ValidationSeverity.WARNING : ValidationSeverity.INFO,
+      type: 'LOGIC',
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Default geotechnical rules, used when geotech checks are switched on for a table
+ */
+export const DEFAULT_GEOTECH_RULES: GeotechRules = {
+  pairedTable: '',
+  rqdColumn: 'RQD_PERCENT',
+  recoveryColumn: 'RECOVERY',
+  fractureColumn: 'FRACTURE_FREQUENCY',
+  recoveryUnit: 'percent',
+  checkRqdWithinRecovery: true,
+  checkRecoveryRange: true,
+  checkRqdVsFracture: true,
+  checkRunAlignment: true,
+  fractureTolerance: 30,
+  alignmentTolerance: 0.05,
+  severity: ValidationSeverity.WARNING,
+};
+
+/**
+ * Helper: RQD (%) expected from a fracture frequency (fractures per metre),
+ * after Priest & Hudson (1976): RQD = 100·e^(-0.1λ)·(0.1λ + 1)
+ */
+export const rqdFromFractureFrequency = (perMetre: number): number =>
+  100 * Math.exp(-0.1 * perMetre) * (0.1 * perMetre + 1);
+
+/**
+ * 13. Geotechnical Consistency
+ * RQD within core recovery, recovery within 0–100 % (or the run length when
+ * logged in metres), RQD against the Priest & Hudson estimate from fracture
+ * frequency, and runs lining up with the paired table's runs (e.g. GEOTECH
+ * with RQD). A column missing from a row is read from the paired run with the
+ * same depths; findings are reported on the row holding the offending value.
+ * Holes without paired runs are left to the cross-table rules.
+ */
+const validateGeotech = (
+  rows: any[],
+  config: TableConfig,
+  pairedRows: any[]
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = config.geotechRules;
+  if (!rules || rows.length === 0) return errors;
+
+  const pairedBySite = rules.pairedTable ? groupIntervalsBySite(pairedRows) : new Map();
+  const reported = new Set<string>();
+  const report = (err: ValidationError) => {
+    if (reported.has(err.id)) return;
+    reported.add(err.id);
+    errors.push(err);
+  };
+
+  groupIntervalsBySite(rows).forEach((intervals, siteId) => {
+    const pairedRuns: { row: any; from: number; to: number }[] = pairedBySite.get(siteId) || [];
+
+    intervals.forEach(({ row, from, to }) => {
+      const paired = pairedRuns.find(
+        (p) => Math.abs(p.from - from) <= rules.alignmentTolerance && Math.abs(p.to - to) <= rules.alignmentTolerance
+      );
+
+      if (rules.checkRunAlignment && pairedRuns.length > 0 && !paired) {
+        const overlapping = pairedRuns.filter((p) => p.from < to && p.to > from).map((p) => `${p.from}–${p.to}`);
+        report({
+          id: `geoalign-${config.tableType}-${row.id}`,
+          table: config.tableType,
+          rowId: row.id,
+          siteId,
+          column: 'DEPTH_FROM',
+          message: `Run ${from}–${to} m does not line up with a ${rules.pairedTable} run${overlapping.length ? ` (overlapping: ${overlapping.join(', ')} m)` : ''}.`,
+          severity: rules.severity,
+          type: 'LOGIC',
+        });
+      }
+
+      // Read a column from this row, else from the matching paired run
+      const read = (column: string) => {
+        if (!isBlank(row[column])) return { owner: row, table: config.tableType, value: parseNumeric(row[column]) };
+        if (paired && !isBlank(paired.row[column])) return { owner: paired.row, table: rules.pairedTable, value: parseNumeric(paired.row[column]) };
+        return null;
+      };
+      const length = to - from;
+      const rqd = read(rules.rqdColumn);
+      const recovery = read(rules.recoveryColumn);
+      const fracture = read(rules.fractureColumn);
+      const recoveryPercent = recovery?.value != null
+        ? rules.recoveryUnit === 'metres' ? (recovery.value / length) * 100 : recovery.value
+        : null;
+
+      if (rules.checkRecoveryRange && recovery && recovery.value !== null) {
+        const max = rules.recoveryUnit === 'metres' ? length : 100;
+        if (recovery.value < 0 || recovery.value > max + (rules.recoveryUnit === 'metres' ? rules.alignmentTolerance : 0)) {
+          report({
+            id: `georec-${recovery.table}-${recovery.owner.id}`,
+            table: recovery.table,
+            rowId: recovery.owner.id,
+            siteId,
+            column: rules.recoveryColumn,
+            value: recovery.owner[rules.recoveryColumn],
+            message: rules.recoveryUnit === 'metres'
+              ? `Recovery ${recovery.value} m outside 0–${length} m (run length ${from}–${to} m).`
+              : `Recovery ${recovery.value}% outside 0–100%.`,
+            severity: rules.severity,
+            type: 'LOGIC',
+          });
+        }
+      }
+
+      if (rules.checkRqdWithinRecovery && rqd && rqd.value !== null && recoveryPercent !== null && rqd.value > recoveryPercent + 0.5) {
+        report({
+          id: `georqd-${rqd.table}-${rqd.owner.id}`,
+          table: rqd.table,
+          rowId: rqd.owner.id,
+          siteId,
+          column: rules.rqdColumn,
+          value: rqd.owner[rules.rqdColumn],
+          message: `RQD ${rqd.value}% exceeds core recovery ${+recoveryPercent.toFixed(1)}% over ${from}–${to} m.`,
+          severity: rules.severity,
+          type: 'LOGIC',
+        });
+      }
+
+      if (rules.checkRqdVsFracture && rqd && rqd.value !== null && fracture && fracture.value !== null && fracture.value >= 0) {
+        const expected = rqdFromFractureFrequency(fracture.value);
+        if (Math.abs(rqd.value - expected) > rules.fractureTolerance) {
+          report({
+            id: `geoff-${rqd.table}-${rqd.owner.id}`,
+            table: rqd.table,
+            rowId: rqd.owner.id,
+            siteId,
+            column: rules.rqdColumn,
+            value: rqd.owner[rules.rqdColumn],
+            message: `RQD ${rqd.value}% inconsistent with fracture frequency ${fracture.value}/m (expected about ${Math.round(expected)}% ± ${rules.fractureTolerance}%).`,
+            severity: rules.severity,
+            type: 'LOGIC',
+          });
+        }
+      }
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Default structure rules, used when alpha/beta checks are switched on for a table
+ */
+export const DEFAULT_STRUCTURE_RULES: StructureRules = {
+  alphaColumn: 'ALPHA_ANGLE',
+  betaColumn: 'BETA_ANGLE',
+  maxStationDistance: 50,
+  severity: ValidationSeverity.WARNING,
+  convertOrientation: true,
+};
+
+/**
+ * Helper: Downhole depth of a measurement - DEPTH on point tables, the interval
+ * midpoint otherwise
+ */
+export const measurementDepth = (row: any): number | null => {
+  const depth = parseNumeric(row.DEPTH);
+  if (depth !== null) return depth;
+  const from = parseNumeric(row.DEPTH_FROM);
+  const to = parseNumeric(row.DEPTH_TO);
+  return from !== null && to !== null ? (from + to) / 2 : null;
+};
+
+/**
+ * 14. Structural Measurements
+ * Alpha within 0–90° and beta within 0–360°, and measurements that cannot be
+ * oriented reliably: holes without survey, or measurements further than
+ * maxStationDistance from the nearest survey station.
+ */
+const validateStructures = (rows: any[], config: TableConfig, surveyRows: any[]): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = config.structureRules;
+  if (!rules || rows.length === 0) return errors;
+
+  const stationsBySite = new Map<string, number[]>();
+  surveyRows.forEach((s) => {
+    const depth = parseNumeric(s.DEPTH);
+    if (depth === null) return;
+    const sId = safeSiteId(s);
+    stationsBySite.set(sId, [...(stationsBySite.get(sId) || []), depth]);
+  });
+
+  rows.forEach((row) => {
+    const siteId = safeSiteId(row);
+    const alpha = parseNumeric(row[rules.alphaColumn]);
+    const beta = parseNumeric(row[rules.betaColumn]);
+    if (alpha === null && beta === null) return; // No measurement on this row
+
+    if (alpha !== null && (alpha < 0 || alpha > 90)) {
+      errors.push({
+        id: `alpha-${row.id}`,
+        table: config.tableType,
+        rowId: row.id,
+        siteId,
+        column: rules.alphaColumn,
+        value: row[rules.alphaColumn],
+        message: `Alpha angle ${alpha}° outside 0–90°.`,
+        severity: ValidationSeverity.CRITICAL,
+        type: 'VALUE',
+      });
+    }
+    if (beta !== null && (beta < 0 || beta > 360)) {
+      errors.push({
+        id: `beta-${row.id}`,
+        table: config.tableType,
+        rowId: row.id,
+        siteId,
+        column: rules.betaColumn,
+        value: row[rules.betaColumn],
+        message: `Beta angle ${beta}° outside 0–360°.`,
+        severity: ValidationSeverity.CRITICAL,
+        type: 'VALUE',
+      });
+    }
+
+    if (rules.maxStationDistance <= 0) return;
+    const depth = measurementDepth(row);
+    if (depth === null) return;
+    const stations = stationsBySite.get(siteId) || [];
+    const nearest = stations.length > 0 ? Math.min(...stations.map((d) => Math.abs(d - depth))) : null;
+    if (nearest !== null && nearest <= rules.maxStationDistance) return;
+
+    errors.push({
+      id: `structsurv-${row.id}`,
+      table: config.tableType,
+      rowId: row.id,
+      siteId,
+      column: rules.alphaColumn,
+      message: nearest === null
+        ? `Structure at ${depth} m cannot be oriented: hole has no survey.`
+        : `Structure at ${depth} m is ${+nearest.toFixed(1)} m from the nearest survey station (max ${rules.maxStationDistance} m); orientation unreliable.`,
+      severity: rules.severity,
+      type: 'LOGIC',
+    });
+  });
+
+  return errors;
+};
+
+export const COMPOSITION_MODE_LABELS: Record<CompositionMode, string> = {
+  max_100: 'Sum ≤ 100%',
+  equals_100: 'Sum = 100%',
+};
+
+/**
+ * 15. Composition (percentage sums)
+ * Percentage columns (PREFIX_* wildcards allowed) must sum to at most 100, or
+ * to 100 within the tolerance. With acrossRows, repeated rows logging the same
+ * interval (e.g. one mineral per row) are summed together and reported once.
+ * Groups without any value are skipped; non-numeric cells are left to the type check.
+ */
+const validateCompositions = (rows: any[], config: TableConfig, isInterval: boolean): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = (config.compositionRules || []).filter((r) => r.columns.length > 0);
+  if (rules.length === 0 || rows.length === 0) return errors;
+
+  rules.forEach((rule, idx) => {
+    const groups = new Map<string, any[]>();
+    rows.forEach((row) => {
+      const from = parseNumeric(row.DEPTH_FROM);
+      const to = parseNumeric(row.DEPTH_TO);
+      const key = rule.acrossRows && isInterval && from !== null && to !== null
+        ? `${safeSiteId(row)}|${from}|${to}`
+        : `row|${row.id}`;
+      groups.set(key, [...(groups.get(key) || []), row]);
+    });
+
+    groups.forEach((group) => {
+      const columns = new Set<string>();
+      let sum = 0;
+      let found = false;
+      group.forEach((row) => {
+        rule.columns
+          .flatMap((c) => (c.endsWith('*') ? matchWildcard(row, c.slice(0, -1)) : [c]))
+          .forEach((col) => {
+            const value = parseNumeric(row[col]);
+            if (value === null) return;
+            columns.add(col);
+            sum += value;
+            found = true;
+          });
+      });
+      if (!found) return;
+
+      sum = Math.round(sum * 1e6) / 1e6;
+      const failed = rule.mode === 'equals_100'
+        ? Math.abs(sum - 100) > rule.tolerance
+        : sum > 100 + rule.tolerance;
+      if (!failed) return;
+
+      const rowIds = group.map((r) => r.id);
+      const where = group.length > 1
+        ? ` over ${group.length} rows logging ${group[0].DEPTH_FROM}–${group[0].DEPTH_TO} m`
+        : '';
+      errors.push({
+        id: `pctsum-${config.tableType}-${idx}-${rowIds[0]}`,
+        table: config.tableType,
+        rowId: rowIds.join(','),
+        siteId: safeSiteId(group[0]),
+        column: Array.from(columns).join('+'),
+        value: sum,
+        message: `Composition: ${Array.from(columns).join(' + ')} sums to ${sum}%${where}; expected ${rule.mode === 'equals_100' ? '100%' : '≤ 100%'}${rule.tolerance > 0 ? ` (±${rule.tolerance})` : ''}.`,
+        severity: rule.severity,
+        type: 'LOGIC',
+      });
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Main Validation Runner
+ */
+
+/**
+ * Ensure collars have a reasonable END_DEPTH > 0
+ */
+const validateCollarDepths = (collars: CollarRow[], tableType: string): ValidationError[] => {
+  return collars
+    .map(c => {
+      const depth = parseNumeric(c.END_DEPTH);
+      // Non-numeric depths are reported by the type check
+      if (depth !== null && depth <= 0) {
+        return {
+          id: `collar-depth-${c.id}`,
+          table: tableType,
+          rowId: c.id,
+          siteId: c.SITE_ID,
+          column: 'END_DEPTH',
+          message: `Invalid Collar depth (${c.END_DEPTH}). Must be greater than zero.`,
+          severity: ValidationSeverity.CRITICAL,
+          type: 'VALUE',
+        } as ValidationError;
+      }
+      return null;
+    })
+    .filter((e): e is ValidationError => e !== null);
+};
+
+// collapse repeated errors into grouped entries so the log isn’t flooded by
+// the same problem occurring many times for the same hole/column.
+const groupErrors = (errors: ValidationError[]): ValidationError[] => {
+  const map = new Map<string, { base: ValidationError; count: number; rowIds: string[]; values: string[]; fixes: AutoFix[] }>();
+  errors.forEach(err => {
+    // include first part of id (error category) to avoid merging over‑ and under‑EOH
+    const category = err.id.split('-')[0];
+    const key = [err.table, err.siteId, err.column || '', err.type, err.severity, category].join('|');
+    const existing = map.get(key);
+    if (existing) {
+      existing.count += 1;
+      existing.rowIds.push(err.rowId);
+      if (err.value !== undefined) existing.values.push(String(err.value));
+      if (err.fix) existing.fixes.push(err.fix);
+    } else {
+      map.set(key, {
+        base: { ...err },
+        count: 1,
+        rowIds: [err.rowId],
+        values: err.value !== undefined ? [String(err.value)] : [],
+        fixes: err.fix ? [err.fix] : [],
+      });
+    }
+  });
+
+  const result: ValidationError[] = [];
+  map.forEach(({ base, count, rowIds, values, fixes }) => {
+    if (count > 1) {
+      const grouped = { ...base };
+      grouped.rowId = rowIds.join(',');
+      grouped.fix = fixes.length > 1
+        ? { description: `${fixes.length} fixes, e.g. ${fixes[0].description}`, patches: fixes.flatMap(f => f.patches) }
+        : fixes[0];
+      // generic message based on category
+      if (base.id.startsWith('eohbot')) {
+        grouped.message = `${count} bottom‑of‑hole coverage issues on site ${base.siteId}.`;
+      } else if (base.id.startsWith('eoh')) {
+        grouped.message = `${count} intervals exceeded EOH on site ${base.siteId}.`;
+      } else if (base.id.startsWith('pteoh')) {
+        grouped.message = `${count} point readings beyond EOH on site ${base.siteId}.`;
+      } else if (base.id.startsWith('ptdup')) {
+        grouped.message = `${count} duplicate point depths on site ${base.siteId}.`;
+      } else if (base.id.startsWith('type')) {
+        const distinct = Array.from(new Set(values)).map(v => `'${v}'`).join(', ');
+        grouped.message = `${count} non-numeric values in '${base.column}' on site ${base.siteId}: ${distinct}.`;
+      } else if (base.id.startsWith('sentinel')) {
+        const distinct = Array.from(new Set(values)).map(v => `'${v}'`).join(', ');
+        grouped.message = `${count} unknown codes in '${base.column}' on site ${base.siteId}: ${distinct}.`;
+      } else if (base.id.startsWith('short') || base.id.startsWith('long')) {
+        const distinct = Array.from(new Set(values)).join(', ');
+        grouped.message = `${count} intervals ${base.id.startsWith('short') ? 'shorter' : 'longer'} than allowed on site ${base.siteId} (lengths: ${distinct} m).`;
+      } else if (base.id.startsWith('xcover')) {
+        grouped.message = `${count} intervals not covered by the reference table on site ${base.siteId}.`;
+      } else if (base.id.startsWith('xcross')) {
+        grouped.message = `${count} intervals cross reference-table contacts on site ${base.siteId}.`;
+      } else if (base.id.startsWith('cond')) {
+        grouped.message = `${count} rows break conditional rules for '${base.column}' on site ${base.siteId}.`;
+      } else if (base.id.startsWith('expr-')) {
+        grouped.message = `${count} rows fail expression rules on site ${base.siteId}.`;
+      } else if (base.id.startsWith('qcstdunk')) {
+        const distinct = Array.from(new Set(values)).map(v => `'${v}'`).join(', ');
+        grouped.message = `${count} standards not in the reference material library on site ${base.siteId}: ${distinct}.`;
+      } else if (base.id.startsWith('qcstd')) {
+        grouped.message = `${count} standards outside tolerance for '${base.column}' on site ${base.siteId}.`;
+      } else if (base.id.startsWith('qcblk')) {
+        grouped.message = `${count} blanks above the contamination threshold for '${base.column}' on site ${base.siteId}.`;
+      } else if (base.id.startsWith('qcdupmiss')) {
+        grouped.message = `${count} duplicates without a matching original sample on site ${base.siteId}.`;
+      } else if (base.id.startsWith('qcdup')) {
+        grouped.message = `${count} duplicate pairs above the RPD limit for '${base.column}' on site ${base.siteId}.`;
+      } else if (base.id.startsWith('qcrate')) {
+        grouped.message = `QC insertion rate for ${count} batches${base.severity === ValidationSeverity.WARNING ? ' below the minimum' : ''}: ${values.join(', ')}.`;
+      } else if (base.id.startsWith('geoalign')) {
+        grouped.message = `${count} runs not lining up with the paired table on site ${base.siteId}.`;
+      } else if (base.id.startsWith('georec')) {
+        grouped.message = `${count} recovery values out of range on site ${base.siteId}.`;
+      } else if (base.id.startsWith('georqd')) {
+        grouped.message = `${count} RQD values exceeding core recovery on site ${base.siteId}.`;
+      } else if (base.id.startsWith('geoff')) {
+        grouped.message = `${count} RQD values inconsistent with fracture frequency on site ${base.siteId}.`;
+      } else if (base.id.startsWith('alpha') || base.id.startsWith('beta')) {
+        const distinct = Array.from(new Set(values)).join(', ');
+        grouped.message = `${count} ${base.id.startsWith('alpha') ? 'alpha' : 'beta'} angles out of range on site ${base.siteId}: ${distinct}.`;
+      } else if (base.id.startsWith('structsurv')) {
+        grouped.message = `${count} structures without adequate survey support on site ${base.siteId}.`;
+      } else if (base.id.startsWith('pctsum')) {
+        const distinct = Array.from(new Set(values)).join(', ');
+        grouped.message = `${count} intervals break composition rules for '${base.column}' on site ${base.siteId} (sums: ${distinct}%).`;
+      } else if (base.id.startsWith('deprecated')) {
+        const distinct = Array.from(new Set(values)).map(v => `'${v}'`).join(', ');
+        grouped.message = `${count} deprecated codes in '${base.column}' on site ${base.siteId}: ${distinct}.`;
+      } else if (base.id.startsWith('deplookup')) {
+        const distinct = Array.from(new Set(values)).map(v => `'${v}'`).join(', ');
+        grouped.message = `${count} codes in '${base.column}' not valid for their parent code on site ${base.siteId}: ${distinct}.`;
+      } else if (base.id.startsWith('dupkey')) {
+        grouped.message = `${count} duplicate ${base.column} keys on site ${base.siteId}.`;
+      } else {
+        grouped.message = `Multiple similar errors on site ${base.siteId}.`;
+      }
+      result.push(grouped);
+    } else {
+      result.push(base);
+    }
+  });
+  return result;
+};
+
+/**
+ * Group the detailed errors for display and count severities
+ */
+const summarize = (allErrors: ValidationError[]): ValidationSummary => {
+  const finalErrors = groupErrors(allErrors);
 
   const totalErrors = finalErrors.filter((e) => e.severity === ValidationSeverity.CRITICAL).length;
   const totalWarnings = finalErrors.filter((e) => e.severity === ValidationSeverity.WARNING).length;
@@ -506,5 +1985,135 @@ export const runValidation = (
     totalErrors,
     totalWarnings,
     errors: finalErrors,
+    detailedErrors: allErrors,
   };
+};
+
+export const runValidation = (
+  tableData: Record<string, any[]>,
+  tables: TableDefinition[],
+  configs: TableConfig[],
+  libraries: CodeLibrary[],
+  referenceMaterials: ReferenceMaterial[] = [],
+  referenceData: Record<string, any[]> = tableData // Key reference lookups; all rows when validating a subset
+): ValidationSummary => {
+  let allErrors: ValidationError[] = [];
+
+  const collarTable = getCollarTable(tables);
+  const collarData = ((collarTable && tableData[collarTable.name]) || []) as CollarRow[];
+  const collarMap = buildCollarDepthMap(collarData);
+  const surveyTable = tables.find((t) => t.kind === 'survey');
+  const surveyRows = (surveyTable && referenceData[surveyTable.name]) || [];
+
+  // Tables run in registry order; checks depend on each table's kind
+  tables.forEach((table) => {
+    const config = configs.find(c => c.tableType === table.name);
+    if (!config) return;
+    const data = tableData[table.name] || [];
+
+    // 0. Structure
+    allErrors = [...allErrors, ...validateStructure(data, config, table)];
+
+    if (table.kind === 'collar') {
+      // explicit check for valid total depth
+      allErrors = [...allErrors, ...validateCollarDepths(data as CollarRow[], table.name)];
+    } else if (table.kind === 'survey') {
+      // Integrity & Logic for Survey
+      allErrors = [...allErrors, ...validateIntegrity(collarData, data, table.name)];
+      allErrors = [...allErrors, ...validateSurvey(data as SurveyRow[], config)];
+      (data as SurveyRow[]).forEach(row => {
+        const max = collarMap.get(row.SITE_ID);
+        const depth = parseNumeric(row.DEPTH);
+        if(max !== undefined && depth !== null && depth > max) {
+           allErrors.push({
+              id: `eoh-surv-${row.id}`,
+              table: table.name,
+              rowId: row.id,
+              siteId: safeSiteId(row),
+              column: 'DEPTH',
+              message: `Survey Depth ${row.DEPTH} exceeds EOH ${max}.`,
+              severity: ValidationSeverity.CRITICAL,
+              type: 'LOGIC'
+           })
+        }
+      });
+    } else if (table.kind === 'interval') {
+      // 1. Integrity (Orphan checks)
+      allErrors = [...allErrors, ...validateIntegrity(collarData, data, table.name)];
+      // 2. EOH Checks
+      allErrors = [...allErrors, ...validateEOH(collarData, data as IntervalRow[], config)];
+      // 3. Interval Logic (Overlaps, Gaps, Lengths)
+      allErrors = [...allErrors, ...validateIntervals(data as IntervalRow[], config)];
+      // 9. Cross-Table Interval Rules
+      allErrors = [...allErrors, ...validateCrossTable(data, config, tableData)];
+      // 13. Geotechnical Consistency (RQD, recovery, fracture frequency, run alignment)
+      allErrors = [...allErrors, ...validateGeotech(data, config, referenceData[config.geotechRules?.pairedTable || ''] || [])];
+    } else if (table.kind === 'point') {
+      // 1. Integrity (Orphan checks)
+      allErrors = [...allErrors, ...validateIntegrity(collarData, data, table.name)];
+      // 8. Point Logic (depth within hole, duplicates, spacing)
+      allErrors = [...allErrors, ...validatePoints(data, config, collarMap)];
+    }
+
+    if (table.kind === 'interval' || table.kind === 'point') {
+      // 14. Structural Measurements (alpha/beta, survey support)
+      allErrors = [...allErrors, ...validateStructures(data, config, surveyRows)];
+    }
+
+    // 3b. Type Conformance (numeric columns)
+    allErrors = [...allErrors, ...validateTypes(data, config)];
+    // 4. Value / Library Checks
+    allErrors = [...allErrors, ...validateValues(data, config, libraries)];
+    // 10. Conditional (if-then) Rules
+    allErrors = [...allErrors, ...validateConditionals(data, config)];
+    // 11. Expression Rules
+    allErrors = [...allErrors, ...validateExpressions(data, config)];
+    // 15. Composition (percentage sums)
+    allErrors = [...allErrors, ...validateCompositions(data, config, table.kind === 'interval')];
+    // 12. QAQC (standards, blanks, duplicates, insertion rate)
+    allErrors = [...allErrors, ...validateQaqc(data, config, referenceMaterials, referenceData[table.name])];
+    // 5. Key References (cross-table)
+    allErrors = [...allErrors, ...validateKeyReferences(data, config, referenceData, defaultKeyReference(tables))];
+    // 7. Unique Keys
+    allErrors = [...allErrors, ...validateUniqueKeys(data, config, table)];
+  });
+
+  return summarize(allErrors);
+};
+
+/**
+ * Incremental re-validation after edits: re-run every check on the rows of the
+ * given sites only (across all tables) and swap their findings into the previous
+ * result. Unique keys are re-checked on all rows, since a duplicate can span
+ * holes. Table-level findings (missing headers, empty cross-table targets, QC
+ * insertion rates) are only refreshed by a full runValidation.
+ */
+export const revalidateSites = (
+  previous: ValidationSummary,
+  tableData: Record<string, any[]>,
+  tables: TableDefinition[],
+  configs: TableConfig[],
+  libraries: CodeLibrary[],
+  referenceMaterials: ReferenceMaterial[],
+  siteIds: string[]
+): ValidationSummary => {
+  if (siteIds.length === 0) return previous;
+  const sites = new Set(siteIds);
+
+  const siteData = Object.fromEntries(
+    Object.entries(tableData).map(([name, rows]) => [name, rows.filter((r) => sites.has(safeSiteId(r)))])
+  );
+  const partial = runValidation(siteData, tables, configs, libraries, referenceMaterials, tableData);
+  const isDupKey = (e: ValidationError) => e.id.startsWith('dupkey-');
+
+  const uniqueKeyErrors = tables.flatMap((table) => {
+    const config = configs.find((c) => c.tableType === table.name);
+    return config ? validateUniqueKeys(tableData[table.name] || [], config, table) : [];
+  });
+
+  return summarize([
+    ...previous.detailedErrors.filter((e) => !sites.has(e.siteId) && !isDupKey(e)),
+    ...partial.detailedErrors.filter((e) => sites.has(e.siteId) && !isDupKey(e)),
+    ...uniqueKeyErrors,
+  ]);
 };
\ No newline at end of file
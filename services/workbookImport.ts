@@ -0,0 +1,114 @@
+import XLSX, { WorkBook } from 'xlsx-js-style';
+import { TableDefinition, TableType } from '../types';
+
+export interface WorkbookSheet {
+  sheetName: string;
+  rows: any[];            // Raw rows as read from the sheet
+  headers: string[];      // Raw header names of the first row
+  guessedTable: string | null; // TableDefinition.name
+}
+
+// Sheet-name keywords per built-in table, checked against the upper-cased sheet name.
+// Custom tables match on their name and label.
+// Keywords of 3 letters or fewer only count as a whole word ("SG" but not "BASALT" for "ALT").
+const SHEET_NAME_KEYWORDS: Record<string, string[]> = {
+  [TableType.COLLAR]: ['COLLAR', 'HEADER', 'HOLE'],
+  [TableType.SURVEY]: ['SURVEY', 'SURV', 'DEVIATION'],
+  [TableType.LITHOLOGY]: ['LITH', 'GEOLOG'],
+  [TableType.ASSAY]: ['ASSAY', 'SAMPLE', 'GRADE'],
+  [TableType.MINERALIZATION]: ['MINERAL', 'MINZ'],
+  [TableType.OXIDATION]: ['OXID', 'OXIDE', 'WEATHER'],
+  [TableType.GEOTECH]: ['GEOTECH', 'GEOTEC', 'RECOVERY'],
+  [TableType.RQD]: ['RQD'],
+  [TableType.VEIN]: ['VEIN'],
+  [TableType.ALTERATION]: ['ALTERATION', 'ALTER', 'ALT'],
+  [TableType.DENSITY]: ['DENSITY', 'DENS', 'SG', 'BULK'],
+};
+
+// Columns shared by many tables carry no signal when scoring headers
+const COMMON_COLUMNS = new Set(['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO']);
+
+/**
+ * Score a keyword against an underscore-separated sheet name: 5 when it starts a
+ * word ("COLLAR" in "DH_COLLARS"), 2 when buried inside one ("HOLE" in "DRILLHOLE_LITH").
+ */
+const keywordScore = (name: string, keyword: string): number => {
+  const padded = `_${name}_`;
+  if (padded.includes(`_${keyword}_`)) return 5;
+  if (keyword.length <= 3) return 0;
+  if (padded.includes(`_${keyword}`)) return 5;
+  return name.includes(keyword) ? 2 : 0;
+};
+
+/**
+ * Guess the target table for a sheet from its name and (normalised) headers.
+ * The sheet name dominates, whole-word keywords over partial ones; headers break
+ * ties and cover generic names like "Sheet1".
+ */
+export const guessTableType = (
+  sheetName: string,
+  headers: string[],
+  tables: TableDefinition[],
+  expectedColumns: Record<string, string[]>
+): string | null => {
+  const name = sheetName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+  const headerSet = new Set(headers);
+  let best: string | null = null;
+  let bestScore = 0;
+
+  tables.forEach((table) => {
+    const type = table.name;
+    const keywords = SHEET_NAME_KEYWORDS[type] || [table.label.toUpperCase().replace(/[^A-Z0-9]+/g, '_')];
+    let score = 0;
+
+    if (name === type || name.startsWith(type)) {
+      score += 10;
+    } else {
+      score += Math.max(0, ...keywords.map((k) => keywordScore(name, k)));
+    }
+
+    (expectedColumns[type] || [])
+      .filter((col) => !COMMON_COLUMNS.has(col))
+      .forEach((col) => {
+        if (headerSet.has(col)) score += 1;
+      });
+
+    // Structural hints: collars carry END_DEPTH, surveys DEPTH + AZIMUTH
+    if (table.kind === 'collar' && headerSet.has('END_DEPTH') && !headerSet.has('DEPTH_FROM')) score += 3;
+    if (table.kind === 'survey' && headerSet.has('DEPTH') && headerSet.has('AZIMUTH')) score += 3;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = type;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Read every non-empty sheet of a workbook.
+ * `normalize` converts raw rows to the canonical header form used for guessing.
+ */
+export const readWorkbookSheets = (
+  wb: WorkBook,
+  normalize: (rows: any[]) => any[],
+  tables: TableDefinition[],
+  expectedColumns: Record<string, string[]>
+): WorkbookSheet[] => {
+  return wb.SheetNames
+    .map((sheetName) => {
+      const rows = XLSX.utils.sheet_to_json(wb.Sheets[sheetName]) as any[];
+      const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+      const normalizedHeaders = rows.length > 0
+        ? Object.keys(normalize([rows[0]])[0]).filter((k) => k !== 'id')
+        : [];
+      return {
+        sheetName,
+        rows,
+        headers,
+        guessedTable: rows.length > 0 ? guessTableType(sheetName, normalizedHeaders, tables, expectedColumns) : null,
+      };
+    })
+    .filter((sheet) => sheet.rows.length > 0);
+};
@@ -18,6 +18,19 @@ export enum TableType {
   DENSITY = 'DENSITY',
 }
 
+// Table kinds decide which structural checks the engine runs on a table
+export type TableKind = 'collar' | 'survey' | 'interval' | 'point' | 'free';
+
+// Registry entry for one data table. Built-in tables are named after TableType;
+// custom tables get any UPPERCASE name defined in the Config screen.
+export interface TableDefinition {
+  name: string;         // UPPERCASE identifier, e.g. 'LITHOLOGY' or 'MAGSUS'
+  label: string;        // Display name
+  kind: TableKind;
+  keyColumns: string[]; // Columns identifying a record, e.g. ['SITE_ID', 'DEPTH_FROM', 'DEPTH_TO']
+  isCustom?: boolean;   // Defined by the user rather than shipped with the app
+}
+
 // Data Row Interfaces - Uppercase Standardization
 export interface CollarRow {
   id: string; // Unique ID (Internal)
@@ -53,6 +66,25 @@ export interface RangeRule {
 export interface LookupRule {
   libraryId: string;
   caseSensitive: boolean;
+  parentColumn?: string; // Dependent lookup: the code must sit below this column's code in the library hierarchy
+  dateColumn?: string;   // Row date checked against the codes' validity dates
+}
+
+export interface KeyReferenceRule {
+  tableType: string;    // Parent table (TableDefinition.name) holding the valid keys
+  columnName: string;   // Parent column, e.g. SITE_ID or SAMPLE_ID
+}
+
+export interface SentinelCode {
+  code: string;    // e.g. '-99', 'IS', 'NSS'
+  meaning: string; // e.g. 'Not analysed', 'Insufficient sample'
+}
+
+export interface SpecialValueRule {
+  belowPrefix: string;  // Below detection limit prefix, e.g. '<'
+  abovePrefix: string;  // Above upper limit prefix, e.g. '>'
+  substituteHalfDetectionLimit: boolean; // '<0.005' resolves to 0.0025
+  sentinels: SentinelCode[];
 }
 
 export interface ColumnConfig {
@@ -64,18 +96,157 @@ export interface ColumnConfig {
   validation?: {
     range?: RangeRule;
     lookup?: LookupRule;
-    isKeyReference?: boolean; // Checks against Collar
+    isKeyReference?: boolean; // Checks against keyReference target (Collar.SITE_ID if unset)
+    keyReference?: KeyReferenceRule;
   };
+  specialValues?: SpecialValueRule; // Numeric columns only (e.g. assay grades)
+}
+
+export interface SurveyRules {
+  maxDoglegPer30m: number;        // Dogleg severity threshold (degrees per 30 m)
+  requireCollarStation: boolean;  // Expect a station at 0 m
+}
+
+export interface PointRules {
+  allowDuplicateDepths: boolean; // e.g. several structures measured at one depth
+  minSpacing: number;            // Minimum distance between readings (m), 0 = no check
+}
+
+export interface IntervalRules {
+  minLength: number;                    // Shortest allowed interval (m), 0 = no check
+  maxLength: number;                    // Longest allowed interval (m), 0 = no check
+  minLengthSeverity: ValidationSeverity;
+  maxLengthSeverity: ValidationSeverity;
+  gapTolerance: number;                 // Gaps up to this size (m) are ignored
+  overlapTolerance: number;             // Overlaps up to this size (m) are ignored
+  snapTolerance: number;                // Reported gaps/overlaps up to this size get a snap fix (m)
+  eohTolerance: number;                 // Allowance when comparing DEPTH_TO with Collar END_DEPTH (m)
+  allowGaps: boolean;                   // Sparse tables (e.g. VEIN): no gap or bottom-coverage checks
+  allowOverlaps: boolean;               // e.g. several vein sets logged over the same run
+  gapSeverity: ValidationSeverity;
+  overlapSeverity: ValidationSeverity;
+}
+
+// Oriented core measurements: alpha is the angle between the core axis and the plane,
+// beta the angle clockwise (looking down-hole) from the top-of-core line to the ellipse bottom
+export interface StructureRules {
+  alphaColumn: string;           // e.g. ALPHA_ANGLE, 0-90
+  betaColumn: string;            // e.g. BETA_ANGLE, 0-360
+  maxStationDistance: number;    // Flag measurements further than this from a survey station (m), 0 = no check
+  severity: ValidationSeverity;
+  convertOrientation: boolean;   // Add true dip / dip direction to the desurvey export
+}
+
+// Cross-table interval rules, compared per SITE_ID:
+// covered_by  - every interval lies inside logged target intervals
+// no_crossing - no interval crosses a target contact (from/to boundary)
+// same_span   - the hole is logged over the same depth span as the target
+export type CrossTableRuleType = 'covered_by' | 'no_crossing' | 'same_span';
+
+export interface CrossTableRule {
+  type: CrossTableRuleType;
+  targetTable: string; // Interval table compared against, e.g. LITHOLOGY
+  severity: ValidationSeverity;
+}
+
+// Row-level conditional rules: IF <ifColumn> <operator> [ifValue] THEN <thenColumn> <requirement>
+// e.g. IF LITH_CODE equals QZV THEN VEIN_TYPE required
+//      IF DRILL_TYPE equals RC THEN RECOVERY not required (waives the mandatory check)
+export type ConditionOperator = 'equals' | 'not_equals' | 'one_of' | 'is_empty' | 'is_not_empty';
+export type ConditionRequirement = 'required' | 'empty' | 'one_of' | 'not_required';
+
+export interface ConditionalRule {
+  ifColumn: string;
+  operator: ConditionOperator;
+  ifValue?: string;   // Comma-separated for 'one_of'
+  thenColumn: string;
+  requirement: ConditionRequirement;
+  thenValue?: string; // Comma-separated, 'one_of' only
+  severity: ValidationSeverity;
+}
+
+// Custom row rule written in the expression language (services/expressionEngine.ts).
+// A row fails when the expression evaluates to false.
+export interface ExpressionRule {
+  expression: string; // e.g. "DEPTH_TO - DEPTH_FROM <= 2.0" or "SUM(PCT_*) <= 100"
+  message?: string;   // Template; {COLUMN} inserts the row's value, e.g. "Sample {SAMPLE_ID} longer than 2 m"
+  severity: ValidationSeverity;
+}
+
+// QAQC on assay tables: control samples are told apart by a sample type column.
+// Type lists are comma-separated, e.g. 'STD,CRM'.
+export interface QaqcElement {
+  column: string;         // Assay column, e.g. AU_PPM
+  detectionLimit: number; // Lower detection limit in the column's units
+}
+
+export interface QaqcRules {
+  sampleTypeColumn: string;  // e.g. SAMPLE_TYPE
+  standardTypes: string;     // Sample types marking standards (certified reference material)
+  blankTypes: string;
+  duplicateTypes: string;
+  standardColumn: string;    // Holds the reference material code of a standard, e.g. STANDARD_ID
+  sampleIdColumn: string;    // e.g. SAMPLE_ID
+  parentColumn: string;      // On duplicates: SAMPLE_ID of the original sample
+  batchColumn: string;       // e.g. LAB_JOB_NO
+  elements: QaqcElement[];   // Columns checked on blanks and duplicates
+  blankMultiple: number;     // Blank fails above this multiple of the detection limit
+  maxDuplicateRPD: number;   // Max relative percent difference of a duplicate pair (%)
+  minInsertionRate: number;  // Min share of QC samples per batch (%), 0 = report only
+}
+
+// Geotechnical consistency between a table and its paired run table (GEOTECH <-> RQD).
+// A column missing from a row is read from the paired run with the same depths.
+export interface GeotechRules {
+  pairedTable: string;            // e.g. RQD on the GEOTECH config; '' = own columns only
+  rqdColumn: string;              // RQD in %
+  recoveryColumn: string;
+  fractureColumn: string;         // Fractures per metre
+  recoveryUnit: 'percent' | 'metres';
+  checkRqdWithinRecovery: boolean;
+  checkRecoveryRange: boolean;
+  checkRqdVsFracture: boolean;
+  checkRunAlignment: boolean;
+  fractureTolerance: number;      // Allowed difference from the RQD estimated from fracture frequency (%)
+  alignmentTolerance: number;     // Max depth difference for runs to line up (m)
+  severity: ValidationSeverity;
+}
+
+// Composition: percentage columns summed per row, or per interval across repeated rows
+export type CompositionMode = 'max_100' | 'equals_100';
+
+export interface CompositionRule {
+  columns: string[];   // e.g. ['PERCENTAGE'] or ['PCT_*'] (PREFIX_* matches every column with the prefix)
+  mode: CompositionMode;
+  tolerance: number;   // Allowed deviation (percentage points)
+  acrossRows: boolean; // Interval tables: sum repeated rows with the same SITE_ID, DEPTH_FROM and DEPTH_TO (not flagged as overlaps)
+  severity: ValidationSeverity;
 }
 
 export interface TableConfig {
-  tableType: TableType;
+  tableType: string; // TableDefinition.name
   columns: ColumnConfig[];
+  surveyRules?: SurveyRules; // SURVEY only
+  pointRules?: PointRules;   // Point tables only
+  intervalRules?: IntervalRules; // Interval tables only
+  crossTableRules?: CrossTableRule[]; // Interval tables only
+  geotechRules?: GeotechRules;        // Interval tables only
+  structureRules?: StructureRules;    // Interval and point tables with alpha/beta measurements
+  conditionalRules?: ConditionalRule[];
+  expressionRules?: ExpressionRule[];
+  compositionRules?: CompositionRule[];
+  qaqcRules?: QaqcRules;     // Assay-type tables with standards, blanks and duplicates
+  uniqueKeys?: string[][];   // Composite unique keys, e.g. [['SAMPLE_ID'], ['SITE_ID', 'DEPTH_FROM']]
 }
 
 export interface LibraryItem {
   code: string;
   description: string;
+  parent?: string;      // Parent code in the same library, e.g. VOLC for AND (IGN -> VOLC -> AND)
+  deprecated?: boolean; // Retired: still recognised, reported with a warning
+  replacedBy?: string;  // Code to use instead of a deprecated one
+  validFrom?: string;   // YYYY-MM-DD, optional
+  validTo?: string;     // YYYY-MM-DD, optional
 }
 
 export interface CodeLibrary {
@@ -84,20 +255,66 @@ export interface CodeLibrary {
   items: LibraryItem[];
 }
 
+// Reference material (standard) with certified values, matched by code
+export interface ReferenceValue {
+  column: string;   // Assay column, e.g. AU_PPM
+  expected: number;
+  sd: number;       // One standard deviation
+}
+
+export interface ReferenceMaterial {
+  id: string;
+  code: string;     // As recorded in the standard column, e.g. OREAS-45E
+  description: string;
+  values: ReferenceValue[];
+}
+
+// Header Aliases: canonical column -> accepted source headers
+export type HeaderAliasMap = Record<string, string[]>;
+
+export interface HeaderAliasConfig {
+  global: HeaderAliasMap;
+  tables: Record<string, HeaderAliasMap>; // Keyed by TableDefinition.name
+}
+
+// Auto-fix: one cell change proposed for a finding
+export interface FixPatch {
+  rowId: string;
+  column: string;
+  from: any; // Value when validated; the patch is skipped if the cell has changed since
+  to: any;
+}
+
+export interface AutoFix {
+  description: string; // e.g. "Swap DEPTH_FROM and DEPTH_TO"
+  patches: FixPatch[];
+}
+
 // Error Reporting
 export interface ValidationError {
   id: string;
-  table: TableType;
+  table: string; // TableDefinition.name
   rowId: string;
   siteId: string;
   column?: string;
+  value?: any; // Raw offending value, when relevant
   message: string;
   severity: ValidationSeverity;
   type: 'INTEGRITY' | 'INTERVAL' | 'VALUE' | 'LOGIC' | 'STRUCTURE';
+  fix?: AutoFix; // Proposed correction, when the fix is unambiguous
+}
+
+export interface ValidationRunMeta {
+  timestamp: string;
+  configVersion: string;
+  rowCounts: Record<string, number>;
+  rulesApplied: string[];
 }
 
 export interface ValidationSummary {
   totalErrors: number;
   totalWarnings: number;
-  errors: ValidationError[];
+  errors: ValidationError[];         // Grouped for display
+  detailedErrors: ValidationError[]; // One entry per offending row, before grouping
+  meta?: ValidationRunMeta; // Attached by the caller for reporting
 }
\ No newline at end of file